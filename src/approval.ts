@@ -0,0 +1,103 @@
+/**
+ * Human-in-the-loop payment approval via MCP elicitation.
+ *
+ * When an approval threshold is configured, any x402 payment at or above it is shown to the
+ * user (tool, provider, price, input summary) before the EIP-3009 authorization is signed.
+ *
+ * Threshold (USD), env taking priority over config:
+ *   CARAVO_APPROVAL_THRESHOLD
+ *   ~/.caravo/config.json → { "approval_threshold": 0.05 }
+ * A threshold that is set but isn't a non-negative number is an error, never "don't ask".
+ *
+ * Clients that don't support elicitation get a deterministic refusal — never a silent payment.
+ */
+
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+
+export interface PaymentApprovalRequest {
+  toolId: string;
+  provider: string;
+  usd: number;
+  input: Record<string, unknown>;
+}
+
+export class PaymentApprovalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentApprovalError";
+  }
+}
+
+const MAX_INPUT_SUMMARY_CHARS = 500;
+
+let threshold: number | undefined;
+
+/** Throws PaymentApprovalError when the threshold is set to something that isn't a non-negative number. */
+export function resolveApprovalThreshold(config: { approval_threshold?: number }): number | undefined {
+  const env = process.env.CARAVO_APPROVAL_THRESHOLD;
+  const [source, raw] = env ? ["CARAVO_APPROVAL_THRESHOLD", env] : ["approval_threshold", config.approval_threshold as unknown];
+  if (raw === undefined || raw === null || raw === "") return undefined;
+  const n = typeof raw === "number" ? raw : typeof raw === "string" ? Number(raw.trim()) : NaN;
+  if (!Number.isFinite(n) || n < 0) {
+    throw new PaymentApprovalError(`Invalid ${source} ${JSON.stringify(raw)}: expected a non-negative amount in USD, e.g. 0.05`);
+  }
+  return n;
+}
+
+export function configureApprovalThreshold(value: number | undefined): void {
+  threshold = value;
+}
+
+/** Short, single-line rendering of the tool input; inline file data is elided. */
+function summarizeInput(input: Record<string, unknown>): string {
+  const json = JSON.stringify(input, (_key, value) =>
+    typeof value === "string" && value.startsWith("data:")
+      ? `<inline file, ${value.length} chars>`
+      : value
+  );
+  return json.length > MAX_INPUT_SUMMARY_CHARS
+    ? json.slice(0, MAX_INPUT_SUMMARY_CHARS) + "…"
+    : json;
+}
+
+/**
+ * Ask the user to approve a payment if it meets the threshold.
+ * Resolves when approved (or below threshold); throws PaymentApprovalError otherwise.
+ */
+export async function requestPaymentApproval(server: Server, req: PaymentApprovalRequest): Promise<void> {
+  if (threshold === undefined || req.usd < threshold) return;
+
+  const price = `$${req.usd.toFixed(6)}`;
+  if (!server.getClientCapabilities()?.elicitation) {
+    throw new PaymentApprovalError(
+      `Payment of ${price} for ${req.toolId} requires user approval (threshold $${threshold}), ` +
+        `but this MCP client does not support elicitation. No payment was made.`
+    );
+  }
+
+  let action: string;
+  try {
+    const result = await server.elicitInput({
+      message: [
+        `Approve payment for a Caravo tool call?`,
+        ``,
+        `Tool:     ${req.toolId}`,
+        `Provider: ${req.provider}`,
+        `Price:    ${price} USDC`,
+        `Input:    ${summarizeInput(req.input)}`,
+      ].join("\n"),
+      requestedSchema: { type: "object", properties: {} },
+    });
+    action = result.action;
+  } catch (err) {
+    throw new PaymentApprovalError(
+      `Payment approval request failed (${err instanceof Error ? err.message : String(err)}). No payment was made.`
+    );
+  }
+
+  if (action !== "accept") {
+    throw new PaymentApprovalError(
+      `Payment of ${price} for ${req.toolId} was ${action === "decline" ? "declined" : "cancelled"} by the user. No payment was made.`
+    );
+  }
+}
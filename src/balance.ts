@@ -0,0 +1,201 @@
+/**
+ * Wallet balance service: USDC and native balances per network, via the registry's viem clients.
+ *
+ * - RPC failures throw BalanceLookupError — never reported as a zero balance
+ * - Results are cached briefly (BALANCE_TTL_MS) and invalidated after payments
+ * - Signed EIP-3009 authorizations are tracked until used on-chain or expired, so the
+ *   spendable balance accounts for payments the server hasn't settled yet
+ */
+
+import { erc20Abi, formatUnits, type Address } from "viem";
+import { getNetwork, getPublicClient } from "./networks.js";
+
+const BALANCE_TTL_MS = 15_000;
+
+// EIP-3009 view: has this authorization nonce been used (or cancelled)?
+const authorizationStateAbi = [
+  {
+    type: "function",
+    name: "authorizationState",
+    stateMutability: "view",
+    inputs: [
+      { name: "authorizer", type: "address" },
+      { name: "nonce", type: "bytes32" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+  },
+] as const;
+
+export class BalanceLookupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BalanceLookupError";
+  }
+}
+
+/** The wallet can't cover any of a call's payment offers — raised before anything is signed. */
+export class InsufficientBalanceError extends Error {
+  constructor(
+    readonly address: string,
+    readonly priceUsd: number,
+    readonly available: string
+  ) {
+    super(`Wallet ${address} has ${available}, which does not cover the $${priceUsd} price`);
+    this.name = "InsufficientBalanceError";
+  }
+}
+
+export interface WalletBalances {
+  network: string;
+  address: string;
+  /** Atomic USDC units */
+  usdc: bigint;
+  /** Wei */
+  native: bigint;
+  /** Atomic USDC units signed but not yet used on-chain */
+  pending: bigint;
+  /** usdc - pending (never negative) */
+  available: bigint;
+  fetchedAt: number;
+}
+
+interface PendingAuthorization {
+  address: string;
+  network: string;
+  asset: string;
+  nonce: `0x${string}`;
+  amount: bigint;
+  /** Unix seconds */
+  validBefore: number;
+}
+
+const cache = new Map<string, { value: bigint; at: number }>();
+let pendingAuthorizations: PendingAuthorization[] = [];
+
+function cacheKey(...parts: string[]): string {
+  return parts.map((p) => p.toLowerCase()).join(":");
+}
+
+function describeRpcError(err: unknown): string {
+  const msg = err instanceof Error ? (err as { shortMessage?: string }).shortMessage ?? err.message : String(err);
+  return msg.split("\n")[0];
+}
+
+async function cached(key: string, force: boolean, load: () => Promise<bigint>): Promise<bigint> {
+  const hit = cache.get(key);
+  if (!force && hit && Date.now() - hit.at < BALANCE_TTL_MS) return hit.value;
+  const value = await load();
+  cache.set(key, { value, at: Date.now() });
+  return value;
+}
+
+function clientFor(caip2: string) {
+  const client = getPublicClient(caip2);
+  if (!client) throw new BalanceLookupError(`Unknown network ${caip2}`);
+  return client;
+}
+
+/** ERC-20 balance of `asset` for `address`. Throws BalanceLookupError on RPC failure. */
+export async function getTokenBalance(address: string, caip2: string, asset: string, force = false): Promise<bigint> {
+  const client = clientFor(caip2);
+  return cached(cacheKey(caip2, asset, address), force, async () => {
+    try {
+      return await client.readContract({
+        address: asset as Address,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [address as Address],
+      });
+    } catch (err) {
+      throw new BalanceLookupError(`Could not read ${asset} balance on ${caip2}: ${describeRpcError(err)}`);
+    }
+  });
+}
+
+async function getNativeBalance(address: string, caip2: string, force: boolean): Promise<bigint> {
+  const client = clientFor(caip2);
+  return cached(cacheKey(caip2, "native", address), force, async () => {
+    try {
+      return await client.getBalance({ address: address as Address });
+    } catch (err) {
+      throw new BalanceLookupError(`Could not read native balance on ${caip2}: ${describeRpcError(err)}`);
+    }
+  });
+}
+
+/** Drop authorizations that expired or were used on-chain; sum the rest for this wallet/asset. */
+async function pendingTotal(address: string, caip2: string, asset: string): Promise<bigint> {
+  const now = Math.floor(Date.now() / 1000);
+  pendingAuthorizations = pendingAuthorizations.filter((p) => p.validBefore > now);
+  const client = getPublicClient(caip2);
+  let total = 0n;
+  for (const p of [...pendingAuthorizations]) {
+    if (cacheKey(p.address, p.network, p.asset) !== cacheKey(address, caip2, asset)) continue;
+    let used = false;
+    try {
+      used = client
+        ? await client.readContract({
+            address: asset as Address,
+            abi: authorizationStateAbi,
+            functionName: "authorizationState",
+            args: [address as Address, p.nonce],
+          })
+        : false;
+    } catch {
+      // Can't tell — keep counting it until it expires
+    }
+    if (used) pendingAuthorizations = pendingAuthorizations.filter((q) => q !== p);
+    else total += p.amount;
+  }
+  return total;
+}
+
+/** Record a signed authorization that was sent to a server. */
+export function trackAuthorization(
+  auth: Omit<PendingAuthorization, "amount" | "validBefore"> & { amount: string; validBefore: string }
+): void {
+  pendingAuthorizations.push({ ...auth, amount: BigInt(auth.amount), validBefore: Number(auth.validBefore) });
+  invalidateBalances(auth.address);
+}
+
+/** Forget cached balances for an address (e.g. after a payment). */
+export function invalidateBalances(address: string): void {
+  const suffix = ":" + address.toLowerCase();
+  for (const key of cache.keys()) {
+    if (key.endsWith(suffix)) cache.delete(key);
+  }
+}
+
+/** USDC + native balance on a network. Throws BalanceLookupError if either lookup fails. */
+export async function getBalances(address: string, caip2: string, force = false): Promise<WalletBalances> {
+  const network = getNetwork(caip2);
+  if (!network) throw new BalanceLookupError(`Unknown network ${caip2}`);
+  const [usdc, native] = await Promise.all([
+    getTokenBalance(address, caip2, network.usdc.address, force),
+    getNativeBalance(address, caip2, force),
+  ]);
+  const pending = await pendingTotal(address, caip2, network.usdc.address);
+  return {
+    network: caip2,
+    address,
+    usdc,
+    native,
+    pending,
+    available: usdc > pending ? usdc - pending : 0n,
+    fetchedAt: Date.now(),
+  };
+}
+
+/** Spendable USDC (balance minus pending authorizations) in atomic units. */
+export async function getAvailableUsdc(address: string, caip2: string): Promise<bigint> {
+  const network = getNetwork(caip2);
+  if (!network) throw new BalanceLookupError(`Unknown network ${caip2}`);
+  const usdc = await getTokenBalance(address, caip2, network.usdc.address);
+  const pending = await pendingTotal(address, caip2, network.usdc.address);
+  return usdc > pending ? usdc - pending : 0n;
+}
+
+export function formatUsdc(atomic: bigint, caip2: string): string {
+  const decimals = getNetwork(caip2)?.usdc.decimals ?? 6;
+  return `${Number(formatUnits(atomic, decimals)).toFixed(6)} USDC`;
+}
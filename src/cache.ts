@@ -0,0 +1,112 @@
+/**
+ * Disk-backed cache for marketplace metadata (tool info, tags, providers, favorites).
+ *
+ * Entries live in ~/.caravo/cache/<sha256(key)>.json. A fresh entry (younger than its TTL) is
+ * returned without a request; a stale one is revalidated with If-None-Match, and a 304 just
+ * refreshes its timestamp. If the API can't be reached (or returns 5xx), a stale entry is served
+ * instead of failing.
+ * Only successful (2xx) responses are cached. Writes are non-fatal.
+ */
+
+import { createHash } from "crypto";
+import { readFileSync, writeFileSync, mkdirSync, existsSync, rmSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import { RequestCancelledError } from "./http.js";
+
+const CACHE_DIR = join(homedir(), ".caravo", "cache");
+
+interface CacheEntry {
+  key: string;
+  etag: string | null;
+  fetched_at: number;
+  data: unknown;
+}
+
+export interface CachedGetOptions {
+  /** How long an entry is served without revalidation. 0 = always revalidate. */
+  ttlMs: number;
+  /** Skip the freshness check (still revalidates with the ETag). */
+  force?: boolean;
+  /** Cache key; defaults to the URL. Use it to scope per-account data. */
+  key?: string;
+}
+
+function entryFile(key: string): string {
+  return join(CACHE_DIR, createHash("sha256").update(key).digest("hex") + ".json");
+}
+
+function readEntry(key: string): CacheEntry | null {
+  try {
+    const file = entryFile(key);
+    if (!existsSync(file)) return null;
+    const entry = JSON.parse(readFileSync(file, "utf-8")) as CacheEntry;
+    return entry.key === key ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeEntry(entry: CacheEntry): void {
+  try {
+    mkdirSync(CACHE_DIR, { recursive: true });
+    writeFileSync(entryFile(entry.key), JSON.stringify(entry), { mode: 0o600 });
+  } catch { /* ignore */ }
+}
+
+/** Drop a cached entry, e.g. after a write that changes it. */
+export function invalidateCached(key: string): void {
+  try {
+    rmSync(entryFile(key), { force: true });
+  } catch { /* ignore */ }
+}
+
+/**
+ * GET `url` as JSON through the cache. `request` performs the GET with the given extra headers.
+ * Non-2xx responses are returned (parsed) but not cached; request failures fall back to a stale
+ * entry when there is one, otherwise they are rethrown. Cancellations are always rethrown.
+ */
+export async function cachedGetJson(
+  url: string,
+  request: (headers: Record<string, string>) => Promise<Response>,
+  opts: CachedGetOptions
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<any> {
+  const key = opts.key ?? url;
+  const entry = readEntry(key);
+  if (entry && !opts.force && Date.now() - entry.fetched_at < opts.ttlMs) {
+    return entry.data;
+  }
+
+  const serveStale = (stale: CacheEntry) => {
+    const age = Math.round((Date.now() - stale.fetched_at) / 1000);
+    process.stderr.write(`[caravo] API unreachable — using cached ${new URL(url).pathname} (${age}s old)\n`);
+    return stale.data;
+  };
+
+  let r: Response;
+  try {
+    r = await request(entry?.etag ? { "If-None-Match": entry.etag } : {});
+  } catch (err) {
+    if (!entry || err instanceof RequestCancelledError) throw err;
+    return serveStale(entry);
+  }
+  if (r.status >= 500 && entry) return serveStale(entry);
+
+  if (r.status === 304 && entry) {
+    writeEntry({ ...entry, fetched_at: Date.now() });
+    return entry.data;
+  }
+
+  let data: unknown;
+  try {
+    data = await r.json();
+  } catch {
+    const text = await r.text().catch(() => "");
+    return { error: `Non-JSON response (${r.status}): ${text.slice(0, 200)}` };
+  }
+  if (r.ok) {
+    writeEntry({ key, etag: r.headers.get("etag"), fetched_at: Date.now(), data });
+  }
+  return data;
+}
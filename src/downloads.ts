@@ -0,0 +1,185 @@
+/**
+ * Download tool output assets (images, audio, video, files) to local disk.
+ *
+ * Remote output URLs may expire, so `save_outputs` on use_tool / fav:* tools and the
+ * `save_output` tool copy them into the output directory:
+ *   CARAVO_OUTPUT_DIR / output_dir in ~/.caravo/config.json   (default ~/.caravo/outputs)
+ * Files are named <execution_id>-<n>.<ext>, with the extension taken from the response's
+ * Content-Type (falling back to the URL's), and reported with their SHA-256 checksum.
+ */
+
+import { createHash } from "crypto";
+import { createWriteStream, mkdirSync, rmSync } from "fs";
+import { join, extname } from "path";
+import { homedir } from "os";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { httpFetch } from "./http.js";
+
+const DEFAULT_OUTPUT_DIR = join(homedir(), ".caravo", "outputs");
+
+// Output keys that hold downloadable assets, as a URL string or { url } (or arrays of either)
+const ASSET_KEYS = ["images", "image", "videos", "video", "audio", "audios", "files", "file", "model", "models"];
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg", "image/png": "png", "image/gif": "gif", "image/webp": "webp",
+  "image/bmp": "bmp", "image/svg+xml": "svg", "image/tiff": "tiff", "image/avif": "avif",
+  "video/mp4": "mp4", "video/webm": "webm", "video/quicktime": "mov",
+  "audio/mpeg": "mp3", "audio/wav": "wav", "audio/x-wav": "wav", "audio/ogg": "ogg",
+  "audio/mp4": "m4a", "audio/flac": "flac",
+  "model/gltf-binary": "glb", "model/gltf+json": "gltf", "model/obj": "obj",
+  "application/pdf": "pdf", "application/json": "json", "application/zip": "zip",
+  "text/plain": "txt",
+};
+
+export interface OutputConfig {
+  output_dir?: string;
+}
+
+export interface SavedOutput {
+  url: string;
+  path: string;
+  content_type: string | null;
+  bytes: number;
+  sha256: string;
+}
+
+let outputDir = DEFAULT_OUTPUT_DIR;
+
+function expandHome(path: string): string {
+  return path.startsWith("~/") ? join(homedir(), path.slice(2)) : path;
+}
+
+export function configureOutputs(config: OutputConfig): void {
+  const dir = process.env.CARAVO_OUTPUT_DIR || config.output_dir;
+  outputDir = dir ? expandHome(dir) : DEFAULT_OUTPUT_DIR;
+}
+
+export function getOutputDir(): string {
+  return outputDir;
+}
+
+export type AssetKind = "image" | "video" | "audio" | "file";
+
+export interface OutputAsset {
+  url: string;
+  kind: AssetKind;
+}
+
+function assetKind(key: string): AssetKind {
+  if (key.startsWith("image")) return "image";
+  if (key.startsWith("video")) return "video";
+  if (key.startsWith("audio")) return "audio";
+  return "file";
+}
+
+/** Remote assets in an execution output, in display order, classified by the key they came from. */
+export function collectOutputAssets(output: Record<string, unknown> | undefined): OutputAsset[] {
+  if (!output) return [];
+  const assets: OutputAsset[] = [];
+  const add = (kind: AssetKind) => (value: unknown) => {
+    if (Array.isArray(value)) return value.forEach(add(kind));
+    const url = typeof value === "string" ? value : (value as { url?: unknown } | null)?.url;
+    if (typeof url === "string" && /^https?:\/\//i.test(url) && !assets.some((a) => a.url === url)) {
+      assets.push({ url, kind });
+    }
+  };
+  for (const key of ASSET_KEYS) add(assetKind(key))(output[key]);
+  return assets;
+}
+
+/** Remote asset URLs in an execution output, in display order. */
+export function collectOutputUrls(output: Record<string, unknown> | undefined): string[] {
+  return collectOutputAssets(output).map((a) => a.url);
+}
+
+/** Path of a URL, or undefined if it doesn't parse (output URLs come from third parties). */
+export function urlPathname(url: string): string | undefined {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return undefined;
+  }
+}
+
+/** MIME type for a URL from its extension, if known. */
+export function mimeFromUrl(url: string): string | undefined {
+  const pathname = urlPathname(url);
+  if (pathname === undefined) return undefined;
+  const ext = extname(pathname).slice(1).toLowerCase();
+  if (ext === "jpeg") return "image/jpeg";
+  return Object.entries(EXTENSIONS).find(([, e]) => e === ext)?.[0];
+}
+
+function extensionFor(contentType: string | null, url: string): string {
+  const mime = contentType?.split(";")[0].trim().toLowerCase();
+  if (mime && EXTENSIONS[mime]) return EXTENSIONS[mime];
+  const fromUrl = extname(urlPathname(url) ?? "").slice(1).toLowerCase();
+  return /^[a-z0-9]{1,5}$/.test(fromUrl) ? fromUrl : "bin";
+}
+
+function safeName(value: string): string {
+  return value.replace(/[^A-Za-z0-9_-]/g, "_").slice(0, 80) || "output";
+}
+
+async function downloadOne(url: string, base: string, signal?: AbortSignal): Promise<SavedOutput> {
+  const resp = await httpFetch(url, {}, { route: "download", signal });
+  if (!resp.ok || !resp.body) throw new Error(`Download of ${url} failed: HTTP ${resp.status}`);
+  const contentType = resp.headers.get("content-type");
+  const path = join(outputDir, `${base}.${extensionFor(contentType, url)}`);
+
+  const hash = createHash("sha256");
+  let bytes = 0;
+  const tap = new Transform({
+    transform(chunk: Buffer, _enc, done) {
+      hash.update(chunk);
+      bytes += chunk.length;
+      done(null, chunk);
+    },
+  });
+  try {
+    await pipeline(
+      Readable.fromWeb(resp.body as import("stream/web").ReadableStream),
+      tap,
+      createWriteStream(path, { mode: 0o600 })
+    );
+  } catch (err) {
+    rmSync(path, { force: true });
+    throw err;
+  }
+  return { url, path, content_type: contentType, bytes, sha256: hash.digest("hex") };
+}
+
+/**
+ * Download every asset URL in `output` into the output directory.
+ * Failures are reported per URL rather than aborting the rest.
+ */
+export async function saveOutputs(
+  output: Record<string, unknown> | undefined,
+  opts: { executionId?: string | null; signal?: AbortSignal } = {}
+): Promise<{ saved: SavedOutput[]; failed: Array<{ url: string; error: string }> }> {
+  const urls = collectOutputUrls(output);
+  const saved: SavedOutput[] = [];
+  const failed: Array<{ url: string; error: string }> = [];
+  if (urls.length === 0) return { saved, failed };
+
+  mkdirSync(outputDir, { recursive: true });
+  const prefix = safeName(opts.executionId ?? new Date().toISOString());
+  for (const [i, url] of urls.entries()) {
+    try {
+      saved.push(await downloadOne(url, urls.length > 1 ? `${prefix}-${i + 1}` : prefix, opts.signal));
+    } catch (err) {
+      failed.push({ url, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return { saved, failed };
+}
+
+/** Display lines for a saveOutputs() result. */
+export function formatSavedOutputs(result: Awaited<ReturnType<typeof saveOutputs>>): string[] {
+  if (result.saved.length === 0 && result.failed.length === 0) return ["  (no downloadable outputs)"];
+  return [
+    ...result.saved.map((s) => `  Saved: ${s.path} (${s.content_type ?? "unknown type"}, ${s.bytes} bytes, sha256 ${s.sha256})`),
+    ...result.failed.map((f) => `  Not saved: ${f.url} — ${f.error}`),
+  ];
+}
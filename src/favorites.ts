@@ -0,0 +1,130 @@
+/**
+ * Local favorites for users without an API key.
+ *
+ * Account favorites live on the marketplace; without a key, favorite_tool stores the tool's
+ * definition in ~/.caravo/favorites.json instead, so its fav:<id> tool registers at startup
+ * without a network round trip. After login the local list is merged into the account and
+ * the entries that synced are dropped from the file.
+ *
+ * For every favorite (local or account), ~/.caravo/favorite-baselines.json remembers the price
+ * and fingerprint it had when first favorited, so a later price increase can be pointed out.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import type { MarketplaceTool } from "./schema.js";
+
+const CONFIG_DIR = join(homedir(), ".caravo");
+const FAVORITES_FILE = join(CONFIG_DIR, "favorites.json");
+const BASELINES_FILE = join(CONFIG_DIR, "favorite-baselines.json");
+
+export interface LocalFavorite {
+  tool: MarketplaceTool;
+  added_at: string;
+}
+
+export interface FavoriteBaseline {
+  price_per_call: number;
+  fingerprint: string;
+  favorited_at: string;
+}
+
+export function readLocalFavorites(): LocalFavorite[] {
+  try {
+    if (existsSync(FAVORITES_FILE)) {
+      const data = JSON.parse(readFileSync(FAVORITES_FILE, "utf-8"));
+      if (Array.isArray(data)) return data.filter((f) => typeof f?.tool?.id === "string");
+    }
+  } catch { /* ignore */ }
+  return [];
+}
+
+function writeLocalFavorites(favorites: LocalFavorite[]): void {
+  try {
+    mkdirSync(CONFIG_DIR, { recursive: true });
+    writeFileSync(FAVORITES_FILE, JSON.stringify(favorites, null, 2), { mode: 0o600 });
+  } catch (e) {
+    process.stderr.write(`[caravo] warning: could not write ${FAVORITES_FILE}: ${e}\n`);
+  }
+}
+
+/** Add (or refresh the stored definition of) a favorite. */
+export function addLocalFavorite(tool: MarketplaceTool): void {
+  const favorites = readLocalFavorites();
+  const existing = favorites.find((f) => f.tool.id === tool.id);
+  writeLocalFavorites([
+    ...favorites.filter((f) => f.tool.id !== tool.id),
+    { tool, added_at: existing?.added_at ?? new Date().toISOString() },
+  ]);
+}
+
+/** Returns whether the tool was a local favorite. */
+export function removeLocalFavorite(toolId: string): boolean {
+  const favorites = readLocalFavorites();
+  const kept = favorites.filter((f) => f.tool.id !== toolId);
+  if (kept.length === favorites.length) return false;
+  writeLocalFavorites(kept);
+  return true;
+}
+
+/**
+ * Push local favorites to the account with `upload` (one call per tool). Entries that synced
+ * are removed; failures stay for the next attempt.
+ */
+export async function syncLocalFavorites(
+  upload: (toolId: string) => Promise<void>
+): Promise<{ synced: string[]; failed: Array<{ tool_id: string; error: string }> }> {
+  const synced: string[] = [];
+  const failed: Array<{ tool_id: string; error: string }> = [];
+  for (const { tool } of readLocalFavorites()) {
+    try {
+      await upload(tool.id);
+      synced.push(tool.id);
+    } catch (err) {
+      failed.push({ tool_id: tool.id, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  if (synced.length > 0) writeLocalFavorites(readLocalFavorites().filter((f) => !synced.includes(f.tool.id)));
+  return { synced, failed };
+}
+
+function readBaselines(): Record<string, FavoriteBaseline> {
+  try {
+    if (existsSync(BASELINES_FILE)) {
+      const data = JSON.parse(readFileSync(BASELINES_FILE, "utf-8"));
+      if (data && typeof data === "object" && !Array.isArray(data)) return data;
+    }
+  } catch { /* ignore */ }
+  return {};
+}
+
+function writeBaselines(baselines: Record<string, FavoriteBaseline>): void {
+  try {
+    mkdirSync(CONFIG_DIR, { recursive: true });
+    writeFileSync(BASELINES_FILE, JSON.stringify(baselines, null, 2), { mode: 0o600 });
+  } catch { /* ignore */ }
+}
+
+export function getFavoriteBaseline(toolId: string): FavoriteBaseline | undefined {
+  return readBaselines()[toolId];
+}
+
+/** Remember a favorite's price and fingerprint, unless it already has a baseline. */
+export function recordFavoriteBaseline(tool: MarketplaceTool, fingerprint: string): void {
+  const baselines = readBaselines();
+  if (baselines[tool.id]) return;
+  baselines[tool.id] = {
+    price_per_call: tool.pricing?.price_per_call ?? 0,
+    fingerprint,
+    favorited_at: new Date().toISOString(),
+  };
+  writeBaselines(baselines);
+}
+
+export function clearFavoriteBaseline(toolId: string): void {
+  const baselines = readBaselines();
+  if (!(toolId in baselines)) return;
+  delete baselines[toolId];
+  writeBaselines(baselines);
+}
@@ -0,0 +1,175 @@
+/**
+ * Shared HTTP client for marketplace calls: per-route timeouts, retries and cancellation.
+ *
+ * - Every request gets a timeout for its route; an MCP cancellation signal aborts it immediately
+ * - Idempotent requests (GET/HEAD) are retried on network errors, timeouts, 408/429 and 5xx,
+ *   with exponential backoff, full jitter and Retry-After
+ * - Anything else (notably paid POSTs) is never retried — a retry could pay twice
+ * - Failures surface as HttpError subclasses instead of raw fetch errors
+ *
+ * Timeouts (seconds), env taking priority:
+ *   CARAVO_TIMEOUT_METADATA / http_timeouts.metadata   (default 15)
+ *   CARAVO_TIMEOUT_EXECUTE  / http_timeouts.execute    (default 120)
+ *   CARAVO_TIMEOUT_DOWNLOAD / http_timeouts.download   (default 300)
+ *   CARAVO_TIMEOUT_UPLOAD   / http_timeouts.upload     (default 600)
+ *   CARAVO_TIMEOUT_DEFAULT  / http_timeouts.default    (default 30)
+ */
+
+export type HttpRoute = "metadata" | "execute" | "download" | "upload" | "default";
+
+export interface HttpConfig {
+  http_timeouts?: Partial<Record<HttpRoute, number>>;
+}
+
+const DEFAULT_TIMEOUTS_MS: Record<HttpRoute, number> = {
+  metadata: 15_000,
+  execute: 120_000,
+  download: 300_000,
+  upload: 600_000,
+  default: 30_000,
+};
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 300;
+const BACKOFF_MAX_MS = 5_000;
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+let timeouts = { ...DEFAULT_TIMEOUTS_MS };
+
+export class HttpError extends Error {
+  constructor(message: string, readonly url: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export class HttpTimeoutError extends HttpError {
+  constructor(url: string, readonly timeoutMs: number) {
+    super(`Request to ${new URL(url).pathname} timed out after ${timeoutMs / 1000}s`, url);
+    this.name = "HttpTimeoutError";
+  }
+}
+
+export class HttpNetworkError extends HttpError {
+  constructor(url: string, readonly cause: unknown) {
+    const reason = cause instanceof Error ? ((cause.cause as Error | undefined)?.message ?? cause.message) : String(cause);
+    super(`Could not reach ${new URL(url).host}: ${reason}`, url);
+    this.name = "HttpNetworkError";
+  }
+}
+
+/** The MCP client cancelled the request. */
+export class RequestCancelledError extends HttpError {
+  constructor(url: string) {
+    super(`Request to ${new URL(url).pathname} was cancelled`, url);
+    this.name = "RequestCancelledError";
+  }
+}
+
+/** A retryable status that persisted after all retries. */
+export class HttpStatusError extends HttpError {
+  constructor(url: string, readonly status: number) {
+    super(`${new URL(url).pathname} returned HTTP ${status}`, url);
+    this.name = "HttpStatusError";
+  }
+}
+
+function positiveSeconds(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n * 1000 : undefined;
+}
+
+export function configureHttp(config: HttpConfig): void {
+  timeouts = { ...DEFAULT_TIMEOUTS_MS };
+  for (const route of Object.keys(DEFAULT_TIMEOUTS_MS) as HttpRoute[]) {
+    const ms =
+      positiveSeconds(process.env[`CARAVO_TIMEOUT_${route.toUpperCase()}`]) ??
+      positiveSeconds(config.http_timeouts?.[route]);
+    if (ms) timeouts[route] = ms;
+  }
+}
+
+/**
+ * A signal that fires on the route's timeout or the caller's cancellation, plus a function
+ * that turns the resulting fetch rejection into an HttpError. For requests made outside
+ * httpFetch (e.g. fetchWithX402), which must not be retried.
+ */
+export function requestDeadline(route: HttpRoute, cancel?: AbortSignal) {
+  const timeoutMs = timeouts[route];
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const signal = cancel ? AbortSignal.any([cancel, timeout]) : timeout;
+  const classify = (err: unknown, url: string): unknown => {
+    if (err instanceof HttpError) return err;
+    if (cancel?.aborted) return new RequestCancelledError(url);
+    if (timeout.aborted) return new HttpTimeoutError(url, timeoutMs);
+    // undici reports connection failures as TypeError("fetch failed")
+    if (err instanceof TypeError) return new HttpNetworkError(url, err);
+    return err;
+  };
+  return { signal, classify };
+}
+
+function backoffMs(attempt: number, retryAfter: string | null): number {
+  const seconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(seconds) && seconds >= 0) return Math.min(seconds * 1000, BACKOFF_MAX_MS);
+  return Math.random() * Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+}
+
+function sleep(ms: number, cancel?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (cancel?.aborted) return reject(cancel.reason);
+    const timer = setTimeout(() => {
+      cancel?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancel?.reason);
+    };
+    cancel?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * fetch() with the route's timeout, cancellation and (for GET/HEAD only) retries.
+ * A GET/HEAD that still gets a 5xx after its retries throws HttpStatusError; any other
+ * response is returned as-is, whatever its status.
+ */
+export async function httpFetch(
+  url: string,
+  init: RequestInit = {},
+  opts: { route?: HttpRoute; signal?: AbortSignal; retries?: number } = {}
+): Promise<Response> {
+  const method = (init.method ?? "GET").toUpperCase();
+  const idempotent = method === "GET" || method === "HEAD";
+  const retries = idempotent ? (opts.retries ?? DEFAULT_RETRIES) : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    const { signal, classify } = requestDeadline(opts.route ?? "default", opts.signal);
+    let resp: Response | null = null;
+    let failure: unknown;
+    try {
+      resp = await fetch(url, { ...init, signal });
+    } catch (err) {
+      failure = classify(err, url);
+      if (failure instanceof RequestCancelledError || !(failure instanceof HttpError)) throw failure;
+    }
+
+    if (resp && !(RETRYABLE_STATUS.has(resp.status) && attempt < retries)) {
+      if (idempotent && resp.status >= 500) throw new HttpStatusError(url, resp.status);
+      return resp;
+    }
+    if (!resp && attempt >= retries) throw failure;
+
+    const delay = backoffMs(attempt, resp?.headers.get("retry-after") ?? null);
+    process.stderr.write(
+      `[caravo] ${method} ${new URL(url).pathname} ${resp ? `HTTP ${resp.status}` : (failure as Error).message} — retrying in ${Math.round(delay)}ms\n`
+    );
+    await resp?.body?.cancel().catch(() => {});
+    try {
+      await sleep(delay, opts.signal);
+    } catch {
+      throw new RequestCancelledError(url);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Idempotency keys for tool executions, so an interrupted paid call is never paid twice.
+ *
+ * Every execution sends an Idempotency-Key header. The key and the call's fingerprint
+ * (tool, input, wallet) are stored in ~/.caravo/executions.json before the request goes out:
+ *   - pending:   the request was sent but no response arrived (timeout, network error, cancel)
+ *   - completed: a response arrived; its result is kept so the key can be looked up later
+ *
+ * A new call whose fingerprint matches a recent pending record reuses that key, so the server
+ * returns the original result instead of executing (and charging) again. Completed records are
+ * never reused implicitly — repeating a finished call is a new execution.
+ */
+
+import { createHash, randomUUID } from "crypto";
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+
+const CONFIG_DIR = join(homedir(), ".caravo");
+const EXECUTIONS_FILE = join(CONFIG_DIR, "executions.json");
+/** Interrupted calls retried within this window reuse their key */
+const REUSE_WINDOW_MS = 60 * 60 * 1000;
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_RECORDS = 200;
+
+export type ExecutionStatus = "pending" | "completed";
+
+export interface ExecutionRecord {
+  idempotency_key: string;
+  tool_id: string;
+  fingerprint: string;
+  wallet?: string;
+  status: ExecutionStatus;
+  started_at: string;
+  finished_at?: string;
+  execution_id?: string | null;
+  /** Raw API result for completed calls */
+  result?: unknown;
+}
+
+/** The execution request was sent but its outcome is unknown; retrying with `key` is safe. */
+export class InterruptedExecutionError extends Error {
+  constructor(readonly toolId: string, readonly key: string, readonly cause: Error) {
+    super(cause.message);
+    this.name = "InterruptedExecutionError";
+  }
+}
+
+function readRecords(): ExecutionRecord[] {
+  try {
+    if (existsSync(EXECUTIONS_FILE)) {
+      const data = JSON.parse(readFileSync(EXECUTIONS_FILE, "utf-8"));
+      if (Array.isArray(data)) return data;
+    }
+  } catch { /* ignore */ }
+  return [];
+}
+
+function writeRecords(records: ExecutionRecord[]): void {
+  const cutoff = Date.now() - RETENTION_MS;
+  const kept = records.filter((r) => Date.parse(r.started_at) >= cutoff).slice(-MAX_RECORDS);
+  try {
+    mkdirSync(CONFIG_DIR, { recursive: true });
+    writeFileSync(EXECUTIONS_FILE, JSON.stringify(kept, null, 2), { mode: 0o600 });
+  } catch (e) {
+    process.stderr.write(`[caravo] warning: could not write ${EXECUTIONS_FILE}: ${e}\n`);
+  }
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/** Stable hash of a logical call: same tool, input (key order ignored) and wallet. */
+export function executionFingerprint(toolId: string, input: Record<string, unknown>, wallet?: string): string {
+  return createHash("sha256").update(`${toolId}\n${wallet ?? ""}\n${canonicalJson(input)}`).digest("hex");
+}
+
+export function getExecutionRecord(key: string): ExecutionRecord | undefined {
+  return readRecords().find((r) => r.idempotency_key === key);
+}
+
+/** Most recent completed record for a marketplace execution_id. */
+export function findExecutionByExecutionId(executionId: string): ExecutionRecord | undefined {
+  return [...readRecords()].reverse().find((r) => r.status === "completed" && r.execution_id === executionId);
+}
+
+/**
+ * Key for a new execution: the caller's explicit key, else the key of a recent interrupted
+ * call with the same fingerprint, else a fresh one. Records the call as pending.
+ */
+export function beginExecution(
+  toolId: string,
+  fingerprint: string,
+  opts: { key?: string; wallet?: string } = {}
+): { key: string; reused: boolean } {
+  const records = readRecords();
+  const cutoff = Date.now() - REUSE_WINDOW_MS;
+  const interrupted = opts.key
+    ? undefined
+    : [...records]
+        .reverse()
+        .find((r) => r.status === "pending" && r.fingerprint === fingerprint && Date.parse(r.started_at) >= cutoff);
+  const key = opts.key ?? interrupted?.idempotency_key ?? randomUUID();
+  const reused = !!interrupted || records.some((r) => r.idempotency_key === key);
+
+  const others = records.filter((r) => r.idempotency_key !== key);
+  others.push({
+    idempotency_key: key,
+    tool_id: toolId,
+    fingerprint,
+    wallet: opts.wallet,
+    status: "pending",
+    started_at: new Date().toISOString(),
+  });
+  writeRecords(others);
+  return { key, reused };
+}
+
+/** A response arrived for this key. */
+export function completeExecution(key: string, result: unknown): void {
+  const records = readRecords();
+  const record = records.find((r) => r.idempotency_key === key);
+  if (!record) return;
+  record.status = "completed";
+  record.finished_at = new Date().toISOString();
+  const executionId = (result as { execution_id?: string } | null)?.execution_id;
+  record.execution_id = executionId ?? null;
+  record.result = result;
+  writeRecords(records);
+}
+
+/** The call never reached the server (refused locally) — forget the key. */
+export function abandonExecution(key: string): void {
+  const records = readRecords();
+  const kept = records.filter((r) => r.idempotency_key !== key);
+  if (kept.length !== records.length) writeRecords(kept);
+}
@@ -17,14 +17,176 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
+import { createHash } from "crypto";
 import { homedir } from "os";
 import { join } from "path";
-import { loadOrCreateWallet } from "./wallet.js";
-import { fetchWithX402 } from "./x402.js";
+import {
+  loadOrCreateWallet,
+  loadWallet,
+  importWallet,
+  exportKeystore,
+  listWallets,
+  validateWalletName,
+  readSecretSource,
+  parseWalletSecret,
+  DEFAULT_WALLET,
+  type Wallet,
+} from "./wallet.js";
+import {
+  fetchWithX402,
+  requiredAmount,
+  cheapestSupportedRequirements,
+  type PaymentRequirements,
+  type X402Hooks,
+} from "./x402.js";
+import {
+  configureSpendLimits,
+  resolveSpendLimits,
+  reserveSpend,
+  settleSpend,
+  releaseSpend,
+  getSpendStatus,
+  SpendLimitError,
+  type SpendLimits,
+} from "./spend-guard.js";
+import {
+  appendLedgerEntry,
+  queryLedger,
+  summarizeLedger,
+  type ExecutionOutcome,
+} from "./ledger.js";
+import {
+  configureApprovalThreshold,
+  resolveApprovalThreshold,
+  requestPaymentApproval,
+  PaymentApprovalError,
+} from "./approval.js";
+import {
+  configureNetworks,
+  getNetwork,
+  listNetworks,
+  DEFAULT_NETWORK,
+  type NetworkConfig,
+} from "./networks.js";
+import {
+  configurePaymentPolicy,
+  verifyPaymentRequirements,
+  getMaxValiditySeconds,
+  recordSettledPayee,
+  PaymentVerificationError,
+  type PaymentPolicyConfig,
+} from "./payment-policy.js";
+import {
+  getBalances,
+  getAvailableUsdc,
+  trackAuthorization,
+  formatUsdc,
+  InsufficientBalanceError,
+} from "./balance.js";
 import { checkForUpdate, type UpdateInfo } from "./version-check.js";
+import { buildSchemaShape, validateToolInput, unknownInputFields, toolFingerprint, type MarketplaceTool } from "./schema.js";
+import { cachedGetJson } from "./cache.js";
+import {
+  configureOutputs,
+  saveOutputs,
+  formatSavedOutputs,
+  getOutputDir,
+  type OutputConfig,
+} from "./downloads.js";
+import {
+  configureMedia,
+  buildMediaContent,
+  INLINE_MEDIA_MODES,
+  type InlineMediaMode,
+  type MediaConfig,
+} from "./media.js";
+import {
+  recordJob,
+  getJobRecord,
+  updateJobStatus,
+  waitForJob,
+  isTerminal,
+  type JobStatus,
+} from "./jobs.js";
+import {
+  beginExecution,
+  completeExecution,
+  abandonExecution,
+  executionFingerprint,
+  getExecutionRecord,
+  findExecutionByExecutionId,
+  InterruptedExecutionError,
+} from "./idempotency.js";
+import {
+  configureHttp,
+  httpFetch,
+  requestDeadline,
+  HttpError,
+  HttpTimeoutError,
+  RequestCancelledError,
+  type HttpConfig,
+  type HttpRoute,
+} from "./http.js";
+import {
+  searchToolsOutput,
+  toolInfoOutput,
+  executionOutput,
+  pipelineOutput,
+  executionStatusOutput,
+  jobStatusOutput,
+  cancelJobOutput,
+  walletInfoOutput,
+  walletsOutput,
+  exportWalletOutput,
+  favoritesOutput,
+  favoritesRefreshOutput,
+  recipesOutput,
+  spendingSummaryOutput,
+  spendingHistoryOutput,
+  savedOutputsOutput,
+  tagsOutput,
+  providersOutput,
+  toolRequestsOutput,
+  listItems,
+  paginationOf,
+} from "./output-schemas.js";
+import { configureUploads, resolveLocalFiles, type UploadConfig, type UploadOptions } from "./uploads.js";
+import {
+  readLocalFavorites,
+  addLocalFavorite,
+  removeLocalFavorite,
+  syncLocalFavorites,
+  getFavoriteBaseline,
+  recordFavoriteBaseline,
+  clearFavoriteBaseline,
+} from "./favorites.js";
+import {
+  readRecipes,
+  getRecipe,
+  saveRecipe,
+  deleteRecipe,
+  validateRecipe,
+  applyRecipe,
+  buildRecipeSchemaShape,
+  RECIPE_NAME_RE,
+  type Recipe,
+} from "./recipes.js";
+import {
+  checkPipeline,
+  checkStepBudget,
+  hasStepReferences,
+  resolveStepInput,
+  roundUsd,
+  PipelineOverchargeError,
+  type PipelineStep,
+  type PipelineStepResult,
+} from "./pipeline.js";
 import { createRequire } from "module";
+import { formatEther } from "viem";
 
 const require = createRequire(import.meta.url);
 const { version: VERSION } = require("../package.json") as { version: string };
@@ -52,6 +214,16 @@ function appendUpdateNotice<T extends { content: Array<{ type: string; text?: st
   return result;
 }
 
+/** Note input fields the tool's schema doesn't declare (sent anyway) under the first text block of a tool response */
+function appendInputWarnings<T extends { content: Array<{ type: string; text?: string }> }>(result: T, warnings: string[]): T {
+  if (warnings.length === 0) return result;
+  const firstText = result.content.find((c) => c.type === "text" && c.text);
+  if (firstText && firstText.text) {
+    firstText.text += `\n\n⚠ Input warnings:\n${warnings.map((w) => `  - ${w}`).join("\n")}`;
+  }
+  return result;
+}
+
 // ─── Shared description blocks (used in both `instructions` and `search_tools`) ─
 
 const ABOUT_CARAVO =
@@ -165,7 +337,21 @@ const WORKFLOW = "search_tools → get_tool_info → use_tool → respond to use
 const CONFIG_DIR = join(homedir(), ".caravo");
 const CONFIG_FILE = join(CONFIG_DIR, "config.json");
 
-function loadConfig(): { api_key?: string } {
+interface CaravoConfig
+  extends NetworkConfig, PaymentPolicyConfig, HttpConfig, OutputConfig, MediaConfig, UploadConfig {
+  api_key?: string;
+  spend_limits?: SpendLimits;
+  approval_threshold?: number;
+  wallet_backend?: string;
+  /** Default wallet profile name */
+  wallet?: string;
+  /** CAIP-2 network used for balance lookup and funding guidance */
+  network?: string;
+  /** Seconds between background favorites refreshes (0 disables) */
+  favorites_sync_interval?: number;
+}
+
+function loadConfig(): CaravoConfig {
   try {
     if (!existsSync(CONFIG_FILE)) return {};
     return JSON.parse(readFileSync(CONFIG_FILE, "utf-8"));
@@ -174,7 +360,7 @@ function loadConfig(): { api_key?: string } {
   }
 }
 
-function saveConfig(data: { api_key?: string }): void {
+function saveConfig(data: CaravoConfig): void {
   mkdirSync(CONFIG_DIR, { recursive: true });
   writeFileSync(CONFIG_FILE, JSON.stringify(data, null, 2), { mode: 0o600 });
 }
@@ -184,13 +370,60 @@ const RAW_KEY = process.env.CARAVO_API_KEY || loadConfig().api_key;
 // Mutable so the `login` tool can update it mid-session
 let API_KEY: string | undefined = RAW_KEY && (RAW_KEY.startsWith("crv_") || RAW_KEY.startsWith("am_")) ? RAW_KEY : undefined;
 
-const wallet = loadOrCreateWallet();
+configureNetworks(loadConfig());
+const NETWORK_ID = process.env.CARAVO_NETWORK || loadConfig().network || DEFAULT_NETWORK;
+const paymentNetwork = getNetwork(NETWORK_ID);
+if (!paymentNetwork) {
+  throw new Error(
+    `Unknown network "${NETWORK_ID}". Known: ${listNetworks().map((n) => n.caip2).join(", ")} (add others under "networks" in ${CONFIG_FILE})`
+  );
+}
+/** Network shown in funding guidance and wallet info (payments follow whatever the server offers). */
+const PAYMENT_NETWORK = paymentNetwork;
+
+const WALLET_BACKEND = loadConfig().wallet_backend;
+// Active wallet profile: env takes priority, then config file
+const ACTIVE_WALLET = process.env.CARAVO_WALLET || loadConfig().wallet || DEFAULT_WALLET;
+{
+  const walletNameError = validateWalletName(ACTIVE_WALLET);
+  if (walletNameError) throw new Error(`CARAVO_WALLET: ${walletNameError}`);
+}
+const wallet = await loadOrCreateWallet(WALLET_BACKEND, ACTIVE_WALLET);
+
+// Other profiles selected per call via the `wallet` argument, loaded (decrypted) once on first use
+const otherWallets = new Map<string, Promise<Wallet>>();
+
+/** Resolve a per-call wallet profile name; undefined means the active wallet. Rejects if unknown. */
+async function resolveWallet(name?: string): Promise<Wallet> {
+  if (!name || name === wallet.name) return wallet;
+  const nameError = validateWalletName(name);
+  if (nameError) throw new Error(nameError);
+  let loading = otherWallets.get(name);
+  if (!loading) {
+    loading = loadWallet(WALLET_BACKEND, name).then((loaded) => {
+      if (!loaded) throw new Error(`Wallet "${name}" not found. Use list_wallets to see profiles or import_wallet to add one.`);
+      return loaded;
+    });
+    otherWallets.set(name, loading);
+    // Don't cache failures (a profile imported later, a passphrase fixed)
+    loading.catch(() => otherWallets.delete(name));
+  }
+  return loading;
+}
+
+configureSpendLimits(resolveSpendLimits(loadConfig()));
+configureApprovalThreshold(resolveApprovalThreshold(loadConfig()));
+configurePaymentPolicy(loadConfig());
+configureHttp(loadConfig());
+configureOutputs(loadConfig());
+configureMedia(loadConfig());
+configureUploads(loadConfig());
 
-process.stderr.write(`[caravo] wallet: ${wallet.address}\n`);
+process.stderr.write(`[caravo] wallet: ${wallet.address} (${wallet.name})\n`);
 process.stderr.write(
   API_KEY
     ? `[caravo] auth: API key\n`
-    : `[caravo] auth: x402 (fund ${wallet.address} with USDC on Base)\n`
+    : `[caravo] auth: x402 (fund ${wallet.address} with USDC on ${PAYMENT_NETWORK.name})\n`
 );
 
 // ─── HTTP helpers ─────────────────────────────────────────────────────────────
@@ -201,11 +434,39 @@ function baseHeaders(): Record<string, string> {
   return h;
 }
 
-async function apiGet(path: string) {
-  const r = await fetch(`${API_BASE}${path}`, { headers: baseHeaders() });
+async function apiGet(path: string, signal?: AbortSignal) {
+  const r = await httpFetch(`${API_BASE}${path}`, { headers: baseHeaders() }, { route: "metadata", signal });
   return safeParseJson(r);
 }
 
+// Metadata cache TTLs (see cache.ts). Favorites always revalidate but fall back offline.
+const TOOL_INFO_TTL_MS = 10 * 60_000;
+const CATALOG_TTL_MS = 60 * 60_000;
+const FAVORITES_TTL_MS = 0;
+
+// Background favorites refresh: CARAVO_FAVORITES_SYNC_SECONDS / favorites_sync_interval (default 300, 0 disables)
+const FAVORITES_SYNC_MS = (() => {
+  const seconds = Number(process.env.CARAVO_FAVORITES_SYNC_SECONDS ?? loadConfig().favorites_sync_interval ?? 300);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+})();
+
+/** GET through the disk cache. `perAccount` scopes the entry to the current API key. */
+async function apiGetCached(
+  path: string,
+  ttlMs: number,
+  opts: { force?: boolean; perAccount?: boolean; signal?: AbortSignal } = {}
+) {
+  const url = `${API_BASE}${path}`;
+  const account = opts.perAccount && API_KEY ? createHash("sha256").update(API_KEY).digest("hex").slice(0, 16) : "";
+  const request = (headers: Record<string, string>) =>
+    httpFetch(url, { headers: { ...baseHeaders(), ...headers } }, { route: "metadata", signal: opts.signal });
+  return cachedGetJson(url, request, {
+    ttlMs,
+    force: opts.force,
+    key: account ? `${url}#${account}` : url,
+  });
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 async function safeParseJson(r: Response): Promise<any> {
   try {
@@ -216,34 +477,170 @@ async function safeParseJson(r: Response): Promise<any> {
   }
 }
 
-async function apiPost(path: string, body: unknown) {
+/** USD value of an x402 offer (USDC has 6 decimals). */
+function offerUsd(requirements: PaymentRequirements): number {
+  return Number(requiredAmount(requirements)) / 1e6;
+}
+
+/** Human-readable price of the cheapest offer in a 402 body, or null if none is usable. */
+function formatOfferPrice(accepts: PaymentRequirements[] | undefined): string | null {
+  const offer = accepts && cheapestSupportedRequirements(accepts);
+  return offer ? `$${offerUsd(offer).toFixed(6)}` : null;
+}
+
+/** Spendable balance of an offer's asset for the paying wallet; null when it can't be determined. */
+async function offerBalance(requirements: PaymentRequirements, payer: Wallet): Promise<bigint | null> {
+  try {
+    return await getAvailableUsdc(payer.address, requirements.network);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The wallet's shortfall against a 402's offers: an InsufficientBalanceError listing its balance
+ * on each offered network, when every offer is known to be unaffordable; null otherwise.
+ * Only the offered networks are queried (their balances were just read to pick an offer, so
+ * this is normally served from the balance cache).
+ */
+async function offersShortfall(accepts: PaymentRequirements[], payer: Wallet): Promise<InsufficientBalanceError | null> {
+  const cheapest = cheapestSupportedRequirements(accepts);
+  const offers = accepts.filter((req) => getNetwork(req.network));
+  if (!cheapest || offers.length === 0) return null;
+  const balances = await Promise.all(offers.map(async (req) => ({ req, available: await offerBalance(req, payer) })));
+  if (balances.some((b) => b.available === null || b.available >= requiredAmount(b.req))) return null;
+  const byNetwork = new Map(balances.map((b) => [b.req.network, b.available!]));
+  return new InsufficientBalanceError(
+    payer.address,
+    offerUsd(cheapest),
+    [...byNetwork].map(([caip2, available]) => `${formatUsdc(available, caip2)} on ${getNetwork(caip2)!.name}`).join(", ")
+  );
+}
+
+/**
+ * Wrap per-call x402 hooks with the global payment guards: requirements are verified, then
+ * spend caps reserved, so the user is never asked to approve a payment that would be refused.
+ */
+function withPaymentGuards(hooks: X402Hooks = {}, expectedPriceUsd?: () => Promise<number | undefined>): X402Hooks {
+  return {
+    balanceOf: hooks.balanceOf,
+    paidSignal: hooks.paidSignal,
+    maxValiditySeconds: getMaxValiditySeconds(),
+    beforeSign: async (requirements) => {
+      verifyPaymentRequirements(requirements, await expectedPriceUsd?.());
+      const usd = offerUsd(requirements);
+      reserveSpend(usd);
+      try {
+        await hooks.beforeSign?.(requirements);
+      } catch (err) {
+        releaseSpend(usd);
+        throw err;
+      }
+    },
+    afterPayment: (result) => {
+      const usd = offerUsd(result.requirements);
+      // Spent unless the payment certainly wasn't used: never sent, or refused by the server (402).
+      // A sent payment that got no answer (timeout, reset) may still settle on-chain.
+      if (result.settled || (result.sent && result.response?.status !== 402)) settleSpend(usd);
+      else releaseSpend(usd);
+      if (result.settled) recordSettledPayee(result.requirements);
+      // A sent authorization may still be settled by the server; count it until used or expired
+      if (result.payload) {
+        const auth = result.payload.payload.authorization;
+        trackAuthorization({
+          address: auth.from,
+          network: result.requirements.network,
+          asset: result.requirements.asset,
+          nonce: auth.nonce,
+          amount: auth.value,
+          validBefore: auth.validBefore,
+        });
+      }
+      hooks.afterPayment?.(result);
+    },
+  };
+}
+
+async function apiPost(
+  path: string,
+  body: unknown,
+  payment: {
+    hooks?: X402Hooks;
+    wallet?: Wallet;
+    /** Advertised price to verify the 402 amount against */
+    expectedPriceUsd?: () => Promise<number | undefined>;
+    /** MCP cancellation signal */
+    signal?: AbortSignal;
+    route?: HttpRoute;
+    headers?: Record<string, string>;
+  } = {}
+) {
+  const payer = payment.wallet ?? wallet;
   const url = `${API_BASE}${path}`;
+  // POSTs may carry a payment, so they are never retried. The paid retry gets a fresh deadline
+  // once approved, so a slow approval can't abort the signed request as soon as it starts.
+  const route = payment.route ?? "default";
+  let deadline = requestDeadline(route, payment.signal);
+  const { signal } = deadline;
+  const headers = { ...baseHeaders(), ...payment.headers };
   const opts: RequestInit = {
     method: "POST",
-    headers: baseHeaders(),
+    headers,
     body: JSON.stringify(body),
+    signal,
   };
-  if (!API_KEY) return safeParseJson(await fetchWithX402(url, opts, wallet));
-  const r = await fetch(url, opts);
-  if (r.status === 401 || r.status === 403 || r.status === 402) {
-    process.stderr.write(`[caravo] API key request failed (${r.status}), falling back to x402\n`);
-    const x402Opts: RequestInit = {
-      method: "POST",
-      headers: baseHeaders(), // Keep Authorization for user attribution on x402 fallback
-      body: JSON.stringify(body),
-    };
-    return safeParseJson(await fetchWithX402(url, x402Opts, wallet));
+  const hooks = withPaymentGuards(
+    {
+      balanceOf: (requirements) => offerBalance(requirements, payer),
+      paidSignal: () => (deadline = requestDeadline(route, payment.signal)).signal,
+      ...payment.hooks,
+    },
+    payment.expectedPriceUsd
+  );
+  try {
+    if (!API_KEY) return safeParseJson(await fetchWithX402(url, opts, payer, hooks));
+    const r = await fetch(url, opts);
+    if (r.status === 401 || r.status === 403 || r.status === 402) {
+      process.stderr.write(`[caravo] API key request failed (${r.status}), falling back to x402\n`);
+      const x402Opts: RequestInit = {
+        method: "POST",
+        headers, // Keep Authorization for user attribution on x402 fallback
+        body: JSON.stringify(body),
+        signal,
+      };
+      return safeParseJson(await fetchWithX402(url, x402Opts, payer, hooks));
+    }
+    return safeParseJson(r);
+  } catch (err) {
+    throw deadline.classify(err, url);
+  }
+}
+
+/**
+ * POST for endpoints that never take payment (job control): no x402 handling, so a 402 is
+ * reported as an error instead of being paid.
+ */
+async function apiPostUnpaid(path: string, body: unknown, signal?: AbortSignal) {
+  const url = `${API_BASE}${path}`;
+  const r = await httpFetch(url, {
+    method: "POST",
+    headers: baseHeaders(),
+    body: JSON.stringify(body),
+  }, { signal });
+  if (r.status === 402) {
+    await r.body?.cancel().catch(() => {});
+    return { error: `${path} asked for a payment (HTTP 402) — not paid` };
   }
   return safeParseJson(r);
 }
 
-async function apiDelete(path: string, body: unknown) {
+async function apiDelete(path: string, body: unknown, signal?: AbortSignal) {
   const url = `${API_BASE}${path}`;
-  const r = await fetch(url, {
+  const r = await httpFetch(url, {
     method: "DELETE",
     headers: baseHeaders(),
     body: JSON.stringify(body),
-  });
+  }, { signal });
   return safeParseJson(r);
 }
 
@@ -284,106 +681,63 @@ function stripDangerousFields(input: Record<string, unknown>): Record<string, un
   return cleaned;
 }
 
-const MIME_MAP: Record<string, string> = {
-  ".jpg": "image/jpeg", ".jpeg": "image/jpeg", ".png": "image/png",
-  ".gif": "image/gif", ".webp": "image/webp", ".bmp": "image/bmp",
-  ".svg": "image/svg+xml", ".tif": "image/tiff", ".tiff": "image/tiff",
-  ".mp4": "video/mp4", ".webm": "video/webm", ".mov": "video/quicktime",
-  ".mp3": "audio/mpeg", ".wav": "audio/wav", ".ogg": "audio/ogg",
-  ".pdf": "application/pdf",
-};
-
-const FILE_EXTENSIONS = new Set(Object.keys(MIME_MAP));
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
 
 /**
- * Resolve local file paths in tool input to data URIs.
- * Detects file:// URIs, absolute paths, ~/ and ./ paths with known extensions.
- * Data URIs preserve MIME type so the server can upload to Fal Storage.
+ * Resolve local file paths in tool input (see uploads.ts), sending upload progress
+ * notifications when the client asked for them.
  */
-function resolveLocalFiles(input: Record<string, unknown>): Record<string, unknown> {
-  const result = { ...input };
-  for (const [key, value] of Object.entries(result)) {
-    if (typeof value !== "string") continue;
-    // Skip URLs and existing data URIs
-    if (/^https?:\/\//i.test(value) || /^data:/i.test(value)) continue;
-    const filePath = toLocalPath(value);
-    if (!filePath) continue;
-    if (!existsSync(filePath)) {
-      throw new Error(`Local file not found: ${filePath}`);
-    }
-    const data = readFileSync(filePath);
-    const ext = filePath.substring(filePath.lastIndexOf(".")).toLowerCase();
-    const mime = MIME_MAP[ext] || "application/octet-stream";
-    result[key] = `data:${mime};base64,${data.toString("base64")}`;
-    process.stderr.write(`[caravo] file → data URI: ${filePath} (${mime}, ${data.length} bytes)\n`);
-  }
-  return result;
-}
-
-function toLocalPath(value: string): string | null {
-  let path: string | null = null;
-  if (value.startsWith("file://")) {
-    path = value.slice(7);
-  } else if (value.startsWith("~/")) {
-    path = join(homedir(), value.slice(2));
-  } else if (value.startsWith("./") || value.startsWith("../")) {
-    path = join(process.cwd(), value);
-  } else if (/^\//.test(value)) {
-    path = value;
-  }
-  if (!path) return null;
-  const ext = path.substring(path.lastIndexOf(".")).toLowerCase();
-  return FILE_EXTENSIONS.has(ext) ? path : null;
+function resolveInputFiles(
+  input: Record<string, unknown>,
+  extra: ToolExtra,
+  opts: Pick<UploadOptions, "skip" | "checkOnly"> = {}
+): Promise<Record<string, unknown>> {
+  const progressToken = extra._meta?.progressToken;
+  // Progress must not decrease across files, so report total bytes sent so far
+  const sentByPath = new Map<string, number>();
+  return resolveLocalFiles(input, {
+    endpoint: `${API_BASE}/api/uploads`,
+    headers: baseHeaders(),
+    signal: extra.signal,
+    ...opts,
+    onProgress: ({ path, sent, total }) => {
+      if (progressToken === undefined) return;
+      sentByPath.set(path, sent);
+      extra
+        .sendNotification({
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress: [...sentByPath.values()].reduce((a, b) => a + b, 0),
+            message: `Uploading ${path} (${Math.floor((sent / total) * 100)}%)`,
+          },
+        })
+        .catch(() => {});
+    },
+  });
 }
 
-// ─── Tool types (from server) ─────────────────────────────────────────────────
+// ─── Favorites registration ────────────────────────────────────────────────────
 
-interface ToolField {
-  name: string;
-  type: string;
-  description: string;
-  required: boolean;
-  options?: (string | { label: string; value: string })[];
-}
+const WALLET_ARG = z
+  .string()
+  .optional()
+  .describe("Wallet profile to pay x402 payments from (default: the active wallet; see list_wallets)");
 
-interface MarketplaceTool {
-  id: string;
-  name: string;
-  description: string;
-  provider: string;
-  pricing: { price_per_call: number; type: string };
-  input_schema: ToolField[];
-  tags: string[];
-}
+const SAVE_OUTPUTS_ARG = z
+  .boolean()
+  .optional()
+  .describe("Download output images/audio/video to the local output directory and return their paths");
 
-// ─── Favorites registration ────────────────────────────────────────────────────
+const INLINE_MEDIA_ARG = z
+  .enum(INLINE_MEDIA_MODES)
+  .optional()
+  .describe("How to return output images/audio: link (resource links only, default), inline (embedded) or none (text only)");
 
-// Track registered fav tool handles for dynamic add/remove
-const registeredFavTools = new Map<string, { remove(): void }>();
-
-function buildSchemaShape(tool: MarketplaceTool): Record<string, z.ZodTypeAny> {
-  const shape: Record<string, z.ZodTypeAny> = {};
-  for (const field of tool.input_schema) {
-    let schema: z.ZodTypeAny;
-    if (field.type === "select" && field.options) {
-      // options may be plain strings or {label, value} objects
-      const values = field.options.map((o: string | { value: string }) =>
-        typeof o === "string" ? o : o.value
-      );
-      schema = z
-        .enum(values as [string, ...string[]])
-        .describe(field.description);
-    } else if (field.type === "number") {
-      schema = z.number().describe(field.description);
-    } else if (field.type === "boolean") {
-      schema = z.boolean().describe(field.description);
-    } else {
-      schema = z.string().describe(field.description);
-    }
-    shape[field.name] = field.required ? schema : schema.optional();
-  }
-  return shape;
-}
+// Track registered fav tool handles for dynamic add/remove, with the fingerprint they were built from
+const registeredFavTools = new Map<string, { remove(): void; fingerprint: string }>();
+// Registered recipe:<name> tool handles, by recipe name
+const registeredRecipeTools = new Map<string, { remove(): void }>();
 
 /** Format output from tool execution into display lines. */
 function formatOutput(output: Record<string, unknown> | undefined): string[] {
@@ -418,7 +772,40 @@ const FALLBACK_HINT = [
   "4. Only report the original error if no alternative succeeds",
 ].join("\n");
 
-function buildPaymentRequiredMessage(price: string): string {
+/** Error text for a failed execution. Payment refusals skip the fallback hint — retrying elsewhere would just pay again. */
+function formatExecError(err: unknown): string {
+  if (err instanceof InsufficientBalanceError) {
+    return `${buildPaymentRequiredMessage(`$${err.priceUsd}`, err)}\n\nWallet balance: ${err.available} (nothing was paid)`;
+  }
+  if (err instanceof PaymentVerificationError) {
+    return `Payment refused: ${err.message}`;
+  }
+  if (err instanceof PaymentApprovalError) {
+    return `Payment not approved: ${err.message}`;
+  }
+  if (err instanceof SpendLimitError) {
+    return `Spend limit reached: ${err.message}\nAdjust CARAVO_MAX_PER_CALL / CARAVO_MAX_PER_SESSION / CARAVO_MAX_DAILY or spend_limits in ${CONFIG_FILE}.`;
+  }
+  if (err instanceof InterruptedExecutionError) {
+    // The server may still complete (and charge for) the call — steer retries to the same key
+    const lines = [
+      err.cause instanceof RequestCancelledError ? `Cancelled: ${err.message}.` : `Error: ${err.message}.`,
+      `The tool may still complete on the server. Idempotency key: ${err.key}`,
+      `Retrying the same call (or passing idempotency_key="${err.key}") returns the original result without paying again;`,
+      `get_execution_status with that key shows the outcome.`,
+    ];
+    if (err.cause instanceof HttpTimeoutError) {
+      lines.push(`Raise the time limit with CARAVO_TIMEOUT_EXECUTE (seconds) or http_timeouts.execute in ${CONFIG_FILE}.`);
+    }
+    return lines.join("\n");
+  }
+  if (err instanceof RequestCancelledError) {
+    return `Cancelled: ${err.message}`;
+  }
+  return `Error: ${err instanceof Error ? err.message : String(err)}${FALLBACK_HINT}`;
+}
+
+function buildPaymentRequiredMessage(price: string, payer: Pick<Wallet, "address"> = wallet): string {
   const VALUE_PROP = "Top up once to unlock 200+ tools at $0.001–$0.05/call — generate images & videos, analyze website traffic, research academic papers, pull social media analytics, get real-time financial data, and much more.";
   if (API_KEY) {
     // Logged in but both balance and wallet are empty
@@ -426,7 +813,7 @@ function buildPaymentRequiredMessage(price: string): string {
       `Payment required (${price}). Your Caravo balance is insufficient and your wallet has no USDC.`,
       ``,
       `Top up your Caravo balance at https://www.caravo.ai/dashboard`,
-      `Or send USDC on Base to ${wallet.address}`,
+      `Or send USDC on ${PAYMENT_NETWORK.name} to ${payer.address}`,
       ``,
       VALUE_PROP,
     ].join("\n");
@@ -439,7 +826,7 @@ function buildPaymentRequiredMessage(price: string): string {
     `  Run the "login" tool to connect your account, then top up at https://www.caravo.ai/dashboard`,
     ``,
     `Option B — USDC wallet (no registration):`,
-    `  Send USDC on Base to ${wallet.address}`,
+    `  Send USDC on ${PAYMENT_NETWORK.name} to ${payer.address}`,
     ``,
     VALUE_PROP,
   ].join("\n");
@@ -462,45 +849,372 @@ function buildPostExecPrompt(execId: string | null, toolId: string, toolName?: s
     `   New:    submit_review(execution_id="${execId}", rating=1-5, comment="...")`,
     `2. If the tool worked well and you may reuse it:`,
   ];
-  if (API_KEY) {
-    lines.push(`   → favorite_tool(tool_id="${toolId}") to register it as a direct fav:${toolId} MCP tool`);
-    lines.push(`   → Also save to your persistent memory for future sessions`);
+  lines.push(`   → favorite_tool(tool_id="${toolId}") to register it as a direct fav:${toolId} MCP tool`);
+  lines.push(`   → Also save to your persistent memory for future sessions`);
+  return lines;
+}
+
+/** Tool metadata (pricing, input_schema) from the marketplace, via the metadata cache. Undefined if unavailable. */
+async function fetchToolInfo(toolId: string, signal?: AbortSignal): Promise<MarketplaceTool | undefined> {
+  try {
+    const info = await apiGetCached(`/api/tools/${toolId}`, TOOL_INFO_TTL_MS, { signal });
+    if (!info || typeof info !== "object" || info.error) return undefined;
+    return info;
+  } catch {
+    return undefined;
+  }
+}
+
+/** The tool's advertised price_per_call from the marketplace, or undefined if unavailable. */
+async function fetchAdvertisedPrice(toolId: string, signal?: AbortSignal): Promise<number | undefined> {
+  const price = (await fetchToolInfo(toolId, signal))?.pricing?.price_per_call;
+  return typeof price === "number" ? price : undefined;
+}
+
+/**
+ * Execute a marketplace tool and record the attempt in the local ledger.
+ * Returns the raw API result; throws on network errors or spend-limit refusals (also recorded).
+ * Requests that were sent but got no response throw InterruptedExecutionError with the
+ * idempotency key to retry with; an explicit key whose call already completed returns its result.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function executeTool(
+  server: McpServer,
+  toolId: string,
+  input: Record<string, unknown>,
+  opts: {
+    provider?: string;
+    wallet?: Wallet;
+    priceUsd?: number;
+    signal?: AbortSignal;
+    idempotencyKey?: string;
+    /** Ask the server for a job handle instead of waiting for the result */
+    async?: boolean;
+  } = {}
+): Promise<any> {
+  const providerId = opts.provider ?? toolId.split("/")[0];
+  const payer = opts.wallet ?? wallet;
+
+  if (opts.idempotencyKey) {
+    const previous = getExecutionRecord(opts.idempotencyKey);
+    if (previous?.status === "completed" && previous.tool_id === toolId) {
+      process.stderr.write(`[caravo] idempotency key ${opts.idempotencyKey} already completed — returning stored result\n`);
+      return previous.result;
+    }
+  }
+
+  const startedAt = new Date().toISOString();
+  let nonce: string | null = null;
+  let idempotencyKey: string | undefined;
+  const record = (outcome: ExecutionOutcome, fields: { execution_id?: string | null; cost?: number; payment_method?: string | null; error?: string }) =>
+    appendLedgerEntry({
+      tool_id: toolId,
+      provider: providerId,
+      execution_id: fields.execution_id ?? null,
+      cost: fields.cost ?? 0,
+      payment_method: fields.payment_method ?? null,
+      x402_nonce: nonce,
+      wallet: payer.name,
+      ...(idempotencyKey ? { idempotency_key: idempotencyKey } : {}),
+      started_at: startedAt,
+      finished_at: new Date().toISOString(),
+      outcome,
+      ...(fields.error ? { error: fields.error } : {}),
+    });
+
+  // Advertised price: used to verify the 402 amount
+  let pricePromise: Promise<number | undefined> | undefined;
+  const advertisedPrice = () =>
+    (pricePromise ??= opts.priceUsd !== undefined ? Promise.resolve(opts.priceUsd) : fetchAdvertisedPrice(toolId, opts.signal));
+
+  const execution = beginExecution(toolId, executionFingerprint(toolId, input, payer.name), {
+    key: opts.idempotencyKey,
+    wallet: payer.name,
+  });
+  idempotencyKey = execution.key;
+  if (execution.reused) {
+    process.stderr.write(`[caravo] retrying interrupted execution with idempotency key ${idempotencyKey}\n`);
+  }
+
+  let result;
+  try {
+    result = await apiPost(`/api/tools/${toolId}/execute`, input, {
+      wallet: payer,
+      expectedPriceUsd: advertisedPrice,
+      route: "execute",
+      signal: opts.signal,
+      headers: {
+        "Idempotency-Key": idempotencyKey,
+        ...(opts.async ? { Prefer: "respond-async" } : {}),
+      },
+      hooks: {
+        beforeSign: (requirements) =>
+          requestPaymentApproval(server.server, {
+            toolId,
+            provider: providerId,
+            usd: offerUsd(requirements),
+            input,
+          }),
+        afterPayment: ({ payload }) => {
+          nonce = payload?.payload.authorization.nonce ?? null;
+        },
+      },
+    });
+  } catch (err) {
+    record("error", { error: err instanceof Error ? err.message : String(err) });
+    // Sent but unanswered: keep the key pending so a retry can't execute (or pay) twice
+    if (err instanceof HttpError) throw new InterruptedExecutionError(toolId, idempotencyKey, err);
+    abandonExecution(idempotencyKey);
+    throw err;
+  }
+
+  // A body that isn't a JSON object (e.g. `null`) is an error result like any other
+  if (!result || typeof result !== "object" || Array.isArray(result)) {
+    result = { error: `Unexpected response from the marketplace: ${safeJsonText(result, false).slice(0, 200)}` };
+  }
+
+  // A 402 means nothing ran; anything else is the call's outcome
+  if (result.x402Version || result.accepts) abandonExecution(idempotencyKey);
+  else completeExecution(idempotencyKey, result);
+
+  if (result.job_id) {
+    record("submitted", {
+      execution_id: result.execution_id || null,
+      cost: Number(result.cost) || 0,
+      payment_method: result.payment_method ?? null,
+    });
+    recordJob({
+      job_id: String(result.job_id),
+      tool_id: toolId,
+      submitted_at: startedAt,
+      idempotency_key: idempotencyKey,
+      last_status: result.status,
+    });
+  } else if (result.success) {
+    record("success", {
+      execution_id: result.execution_id || null,
+      cost: Number(result.cost) || 0,
+      payment_method: result.payment_method ?? null,
+    });
+  } else if (result.x402Version || result.accepts) {
+    // Nothing was signed: if every offered network is known to fall short, say what the wallet has there
+    const shortfall = API_KEY ? null : await offersShortfall(result.accepts ?? [], payer);
+    record("payment_required", shortfall ? { error: shortfall.message } : {});
+    if (shortfall) throw shortfall;
   } else {
-    lines.push(`   → Save tool_id="${toolId}" to your persistent memory for future sessions`);
+    record("error", {
+      execution_id: result.execution_id || null,
+      error: typeof result.error === "string" ? result.error : safeJsonText(result, false).slice(0, 500),
+    });
   }
-  return lines;
+  return result;
+}
+
+// ─── Async jobs ─────────────────────────────────────────────────────────────
+
+// Job and execution IDs are opaque server tokens
+const SERVER_ID_RE = /^[A-Za-z0-9_-]{1,200}$/;
+const DEFAULT_JOB_WAIT_SECONDS = 120;
+const MAX_JOB_WAIT_SECONDS = 900;
+
+async function fetchJobStatus(jobId: string, signal?: AbortSignal): Promise<JobStatus> {
+  const data = await apiGet(`/api/jobs/${jobId}`, signal);
+  if (!data || data.error || !data.status) {
+    throw new Error(typeof data?.error === "string" ? data.error : `Unexpected job status response: ${safeJsonText(data, false).slice(0, 200)}`);
+  }
+  updateJobStatus(jobId, data.status);
+  // Keep the finished result with the submission's idempotency record (for save_output)
+  const key = getJobRecord(jobId)?.idempotency_key;
+  if (key && data.status === "succeeded" && data.result) completeExecution(key, data.result);
+  return { ...data, job_id: jobId };
+}
+
+/** Text plus structured content for a successful result of a tool with an outputSchema. */
+function structuredResult(text: string, structured: Record<string, unknown>) {
+  return { content: [{ type: "text" as const, text }], structuredContent: structured };
+}
+
+/** structuredContent for a use_tool / fav:* execution (see executionOutput). */
+function executionStructured(
+  toolId: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  result: any,
+  saved?: Awaited<ReturnType<typeof saveOutputs>>
+): Record<string, unknown> {
+  const common = {
+    tool_id: toolId,
+    execution_id: result.execution_id || null,
+    ...(result.cost !== undefined ? { cost: Number(result.cost) || 0 } : {}),
+    payment_method: result.payment_method ?? null,
+  };
+  if (result.job_id) {
+    return {
+      status: "submitted",
+      ...common,
+      job_id: String(result.job_id),
+      ...(result.status ? { job_status: String(result.status) } : {}),
+    };
+  }
+  return {
+    status: "success",
+    ...common,
+    ...(result.output ? { output: result.output } : {}),
+    ...(saved ? { saved_outputs: saved.saved } : {}),
+  };
+}
+
+function jobHandleText(toolId: string, result: Record<string, unknown>): string {
+  return [
+    `⏳ Job submitted: ${toolId}`,
+    `  Job ID: ${result.job_id}${result.status ? ` (${result.status})` : ""}`,
+    ...(result.cost !== undefined ? [`  Cost: $${result.cost} (${result.payment_method})`] : []),
+    ``,
+    `Call wait_for_job(job_id="${result.job_id}") to wait for the result, or get_job_status to check on it.`,
+    `cancel_job stops it if it is no longer needed.`,
+  ].join("\n");
+}
+
+/** Tool result for a job status: the output once it succeeded, otherwise its state. */
+async function jobStatusResult(status: JobStatus, opts: { timedOut?: boolean; signal?: AbortSignal } = {}) {
+  const toolId = getJobRecord(status.job_id)?.tool_id;
+  const label = toolId ? `${toolId} job ${status.job_id}` : `Job ${status.job_id}`;
+  const structuredContent = {
+    job_id: status.job_id,
+    ...(toolId ? { tool_id: toolId } : {}),
+    status: status.status,
+    ...(typeof status.progress === "number" ? { progress: status.progress } : {}),
+    ...(status.message ? { message: status.message } : {}),
+    ...(opts.timedOut ? { timed_out: true } : {}),
+    ...(status.result ? { result: status.result } : {}),
+  };
+  if (status.status === "succeeded" && status.result?.success !== false) {
+    const result = status.result ?? {};
+    const execId = result.execution_id || null;
+    const lines = [
+      `✓ ${label} | Cost: $${result.cost ?? "?"} (${result.payment_method ?? "?"})`,
+      ...(execId ? [`  Execution ID: ${execId}`] : []),
+      ...formatOutput(result.output),
+      ...(toolId ? buildPostExecPrompt(execId, toolId) : []),
+    ];
+    return appendUpdateNotice({
+      content: [
+        { type: "text" as const, text: lines.join("\n") },
+        ...(await buildMediaContent(result.output, { signal: opts.signal })),
+      ],
+      structuredContent,
+    });
+  }
+  if (isTerminal(status.status)) {
+    const error = status.error ?? status.result?.error;
+    return appendUpdateNotice({
+      content: [{
+        type: "text" as const,
+        text: `${label} ${status.status}${error ? `: ${error}` : ""}${status.status === "failed" ? FALLBACK_HINT : ""}`,
+      }],
+      isError: true,
+    });
+  }
+  const progress = typeof status.progress === "number" ? ` (${Math.round(status.progress * 100)}%)` : "";
+  return appendUpdateNotice({
+    content: [{
+      type: "text" as const,
+      text: [
+        `${label} is ${status.status}${progress}${status.message ? ` — ${status.message}` : ""}`,
+        opts.timedOut
+          ? `Still running after the wait limit. Call wait_for_job again to keep waiting.`
+          : `Call wait_for_job(job_id="${status.job_id}") to wait for the result.`,
+      ].join("\n"),
+    }],
+    structuredContent,
+  });
 }
 
-function makeFavToolHandler(tool: MarketplaceTool) {
-  return async (args: Record<string, unknown>) => {
-    // Extract dry_run before passing remaining args to the API
+/** fav tools accept client-side arguments (`wallet`, `save_outputs`, `inline_media`) unless the tool has an input field of the same name. */
+function favToolHasArg(tool: MarketplaceTool, name: string): boolean {
+  return !tool.input_schema.some((f) => f.name === name);
+}
+
+/**
+ * Handler for fav:<id>, or for recipe:<name> when `recipe` is given: its presets are merged into
+ * the caller's input, and the favorite bookkeeping (drift re-registration, price notice) is skipped.
+ */
+function makeFavToolHandler(server: McpServer, tool: MarketplaceTool, recipe?: Recipe) {
+  const hasWalletArg = favToolHasArg(tool, "wallet");
+  const hasSaveArg = favToolHasArg(tool, "save_outputs");
+  const hasMediaArg = favToolHasArg(tool, "inline_media");
+  return async (args: Record<string, unknown>, extra: ToolExtra) => {
+    // Extract dry_run (and the wallet profile / save option) before passing remaining args to the API
     const { dry_run, ...rawInput } = args;
-    const toolInput = resolveLocalFiles(rawInput);
+    let walletName: string | undefined;
+    if (hasWalletArg) {
+      walletName = rawInput.wallet as string | undefined;
+      delete rawInput.wallet;
+    }
+    let saveOutputsArg = false;
+    if (hasSaveArg) {
+      saveOutputsArg = rawInput.save_outputs === true;
+      delete rawInput.save_outputs;
+    }
+    let mediaMode: InlineMediaMode | undefined;
+    if (hasMediaArg) {
+      mediaMode = rawInput.inline_media as InlineMediaMode | undefined;
+      delete rawInput.inline_media;
+    }
+    let toolInput: Record<string, unknown>;
+    try {
+      // A dry run only previews the price: check local files, but don't read or upload them
+      toolInput = await resolveInputFiles(recipe ? applyRecipe(recipe, rawInput) : rawInput, extra, { checkOnly: !!dry_run });
+    } catch (err) {
+      return appendUpdateNotice({
+        content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)} (nothing was executed or paid)` }],
+        isError: true,
+      });
+    }
     if (dry_run) {
-      return appendUpdateNotice(await dryRunProbe(tool.id, toolInput));
+      return appendUpdateNotice(await dryRunProbe(tool.id, toolInput, extra.signal));
+    }
+
+    // Pick up provider changes (schema, price) since registration; re-registering takes
+    // effect for the next call, this one uses the current price
+    const current = (await fetchToolInfo(tool.id, extra.signal)) ?? tool;
+    if (!recipe && toolFingerprint(current) !== registeredFavTools.get(tool.id)?.fingerprint) {
+      registerFavTool(server, current);
     }
 
     try {
-      const result = await apiPost(`/api/tools/${tool.id}/execute`, toolInput);
+      const payer = await resolveWallet(walletName);
+      const result = await executeTool(server, tool.id, toolInput, {
+        provider: tool.provider,
+        wallet: payer,
+        priceUsd: current.pricing.price_per_call,
+        signal: extra.signal,
+      });
 
       if (result.success) {
         const execId = result.execution_id || null;
         const reviewLines = buildPostExecPrompt(execId, tool.id, tool.name);
+        const saved = saveOutputsArg ? await saveOutputs(result.output, { executionId: execId, signal: extra.signal }) : undefined;
         const lines = [
-          `✓ ${tool.name} | Cost: $${result.cost} (${result.payment_method})`,
+          `✓ ${recipe ? `${recipe.name} (${tool.name})` : tool.name} | Cost: $${result.cost} (${result.payment_method})`,
           ...(execId ? [`  Execution ID: ${execId}`] : []),
           ...formatOutput(result.output),
+          ...(saved ? formatSavedOutputs(saved) : []),
+          ...(recipe ? [] : priceIncreaseNotice(current)),
           ...reviewLines,
         ];
         return appendUpdateNotice({
-          content: [{ type: "text" as const, text: lines.join("\n") }],
+          content: [
+            { type: "text" as const, text: lines.join("\n") },
+            ...(await buildMediaContent(result.output, { mode: mediaMode, signal: extra.signal })),
+          ],
+          structuredContent: executionStructured(tool.id, result, saved),
         });
       }
 
       if (result.x402Version || result.accepts) {
-        const price = `$${tool.pricing.price_per_call}`;
+        const price = `$${current.pricing.price_per_call}`;
         return appendUpdateNotice({
-          content: [{ type: "text" as const, text: buildPaymentRequiredMessage(price) }],
+          content: [{ type: "text" as const, text: buildPaymentRequiredMessage(price, payer) }],
           isError: true,
         });
       }
@@ -513,28 +1227,56 @@ function makeFavToolHandler(tool: MarketplaceTool) {
       });
     } catch (err) {
       return appendUpdateNotice({
-        content: [
-          {
-            type: "text" as const,
-            text: `Error: ${err instanceof Error ? err.message : String(err)}${FALLBACK_HINT}`,
-          },
-        ],
+        content: [{ type: "text" as const, text: formatExecError(err) }],
         isError: true,
       });
     }
   };
 }
 
+/** A line pointing out that a favorite costs more than when it was favorited, if it does. */
+function priceIncreaseNotice(tool: MarketplaceTool): string[] {
+  const baseline = getFavoriteBaseline(tool.id);
+  const price = tool.pricing?.price_per_call;
+  if (!baseline || typeof price !== "number" || price <= baseline.price_per_call) return [];
+  return [
+    `  ⚠ Price increased since you favorited this tool (${baseline.favorited_at.slice(0, 10)}): $${baseline.price_per_call} → $${price} per call`,
+  ];
+}
+
+/**
+ * Register `tool` as fav:<id>. An existing registration is kept if the tool is unchanged and
+ * replaced if its fingerprint (schema, price, description) differs.
+ */
 function registerFavTool(server: McpServer, tool: MarketplaceTool) {
-  if (registeredFavTools.has(tool.id)) return; // already registered
+  const fingerprint = toolFingerprint(tool);
+  const existing = registeredFavTools.get(tool.id);
+  if (existing?.fingerprint === fingerprint) return; // already registered, unchanged
+  if (existing) {
+    existing.remove();
+    registeredFavTools.delete(tool.id);
+    process.stderr.write(`[caravo] fav:${tool.id} changed on the marketplace — re-registered\n`);
+  }
+  recordFavoriteBaseline(tool, fingerprint);
 
+  const baseline = getFavoriteBaseline(tool.id);
   const priceLabel =
-    tool.pricing.price_per_call > 0
+    (tool.pricing.price_per_call > 0
       ? `$${tool.pricing.price_per_call}/call`
-      : "Free";
+      : "Free") +
+    (baseline && tool.pricing.price_per_call > baseline.price_per_call ? ` (up from $${baseline.price_per_call})` : "");
 
   const schema = buildSchemaShape(tool);
   schema.dry_run = z.boolean().optional().describe("Preview cost without executing");
+  if (favToolHasArg(tool, "wallet")) {
+    schema.wallet = WALLET_ARG;
+  }
+  if (favToolHasArg(tool, "save_outputs")) {
+    schema.save_outputs = SAVE_OUTPUTS_ARG;
+  }
+  if (favToolHasArg(tool, "inline_media")) {
+    schema.inline_media = INLINE_MEDIA_ARG;
+  }
 
   const registered = server.registerTool(
     `fav:${tool.id}`,
@@ -542,88 +1284,338 @@ function registerFavTool(server: McpServer, tool: MarketplaceTool) {
       title: `★ ${tool.name}`,
       description: `[${tool.provider}] ${tool.description} | ${priceLabel} | Tags: ${tool.tags.join(", ")}`,
       inputSchema: schema,
+      outputSchema: executionOutput,
     },
-    makeFavToolHandler(tool)
+    makeFavToolHandler(server, tool)
   );
 
-  registeredFavTools.set(tool.id, registered);
+  registeredFavTools.set(tool.id, { remove: () => registered.remove(), fingerprint });
 }
 
 /**
- * Load favorited tools from the server and register each as a direct fav:<id> tool.
- * Only runs if API_KEY is set (favorites are per-account).
+ * Merge local favorites (saved before login) into the account. Returns the sync result,
+ * or null if there was nothing to sync.
  */
-async function loadFavoriteTools(server: McpServer) {
-  if (!API_KEY) {
-    process.stderr.write(
-      "[caravo] no API key — skipping favorites (set CARAVO_API_KEY to enable)\n"
-    );
-    return;
-  }
+async function syncFavoritesToAccount() {
+  if (!API_KEY || readLocalFavorites().length === 0) return null;
+  const result = await syncLocalFavorites(async (toolId) => {
+    const res = await apiPost("/api/favorites", { tool_id: toolId });
+    if (res.error) throw new Error(String(res.error));
+  });
+  process.stderr.write(
+    `[caravo] favorites: synced ${result.synced.length} local favorite(s) to your account` +
+      (result.failed.length > 0 ? `, ${result.failed.length} failed` : "") +
+      "\n"
+  );
+  return result;
+}
 
-  try {
-    const result = await apiGet("/api/favorites");
-    const tools: MarketplaceTool[] = result.data ?? [];
-    process.stderr.write(
-      `[caravo] loaded ${tools.length} favorited tool(s) from server\n`
-    );
-    for (const tool of tools) {
-      registerFavTool(server, tool);
+/**
+ * Current favorites: the account's with an API key, otherwise the local ones. `revalidate`
+ * re-fetches local favorites' definitions (account favorites always come fresh from the server).
+ */
+async function fetchFavoriteTools(
+  revalidate: boolean
+): Promise<{ source: "account" | "local"; tools: MarketplaceTool[] }> {
+  if (!API_KEY) {
+    const tools: MarketplaceTool[] = [];
+    for (const { tool } of readLocalFavorites()) {
+      const current = revalidate ? await fetchToolInfo(tool.id) : undefined;
+      if (current && toolFingerprint(current) !== toolFingerprint(tool)) addLocalFavorite(current);
+      tools.push(current ?? tool);
     }
-  } catch (e) {
-    process.stderr.write(
-      `[caravo] warning: could not load favorites: ${e}\n`
-    );
+    return { source: "local", tools };
   }
+  // Served from the cache if the API is briefly unreachable, so fav:* tools still register
+  const result = await apiGetCached("/api/favorites", FAVORITES_TTL_MS, { perAccount: true });
+  if (result?.error) throw new Error(String(result.error));
+  return { source: "account", tools: result?.data ?? [] };
 }
 
-// ─── Dry-run helper ─────────────────────────────────────────────────────────
+type FavoritesRefreshResult = {
+  source: "account" | "local";
+  added: string[];
+  updated: string[];
+  removed: string[];
+  total: number;
+};
 
-async function dryRunProbe(toolId: string, input: Record<string, unknown>) {
-  try {
-    // Send a plain POST with no auth/payment headers to trigger a 402 for paid tools
-    const url = `${API_BASE}/api/tools/${toolId}/execute`;
-    const resp = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(input),
-    });
+/** The in-flight refresh, with the API key it runs as */
+let favoritesRefresh: { apiKey: string | undefined; promise: Promise<FavoritesRefreshResult> } | null = null;
 
-    if (resp.status === 402) {
-      // Parse cost from 402 response
-      let cost = "unknown";
-      try {
-        const body = await resp.json();
-        const amount = body?.accepts?.[0]?.maxAmountRequired ?? body?.accepts?.[0]?.amount;
-        if (amount) {
-          cost = `$${(parseInt(amount) / 1e6).toFixed(6)}`;
-        }
-      } catch {
-        // Header fallback
-        const header = resp.headers.get("payment-required");
-        if (header) {
-          try {
-            const pr = JSON.parse(atob(header));
-            const amount = pr?.accepts?.[0]?.maxAmountRequired ?? pr?.accepts?.[0]?.amount;
-            if (amount) cost = `$${(parseInt(amount) / 1e6).toFixed(6)}`;
-          } catch { /* ignore */ }
-        }
+/**
+ * Bring the registered fav:<id> tools in line with the current favorites — after login/logout,
+ * on the background timer, or from refresh_favorites. Favorites added elsewhere (dashboard,
+ * another machine) are registered, changed ones re-registered and removed ones unregistered;
+ * the SDK sends tools/list_changed for each change. Local favorites are synced to the account
+ * first. Concurrent calls with the same API key share one refresh; after a login or logout,
+ * a new refresh runs once the in-flight one (for the old key) has finished.
+ */
+function refreshFavoriteTools(server: McpServer, opts: { revalidate?: boolean } = {}): Promise<FavoritesRefreshResult> {
+  const apiKey = API_KEY;
+  if (favoritesRefresh && favoritesRefresh.apiKey === apiKey) return favoritesRefresh.promise;
+  const previous = favoritesRefresh?.promise.catch(() => {});
+  const run = async (): Promise<FavoritesRefreshResult> => {
+    await previous;
+    try {
+      await syncFavoritesToAccount().catch((e) => {
+        process.stderr.write(`[caravo] warning: could not sync local favorites: ${e}\n`);
+      });
+      const { source, tools } = await fetchFavoriteTools(opts.revalidate ?? true);
+      const wanted = new Set(tools.map((t) => t.id));
+      const removed: string[] = [];
+      for (const [toolId, registered] of registeredFavTools) {
+        if (wanted.has(toolId)) continue;
+        registered.remove();
+        registeredFavTools.delete(toolId);
+        // Unfavorited elsewhere (not just logged out): forget its price history
+        if (source === "account") clearFavoriteBaseline(toolId);
+        removed.push(toolId);
       }
-      return {
-        content: [{ type: "text" as const, text: `Preview: ${toolId} costs ${cost} per call (no payment was made)` }],
-      };
-    }
-
-    if (resp.ok) {
-      return {
-        content: [{ type: "text" as const, text: `Preview: ${toolId} is free ($0.00 per call)` }],
-      };
+      const added: string[] = [];
+      const updated: string[] = [];
+      for (const tool of tools) {
+        const existing = registeredFavTools.get(tool.id);
+        if (!existing) added.push(tool.id);
+        else if (existing.fingerprint !== toolFingerprint(tool)) updated.push(tool.id);
+        registerFavTool(server, tool);
+      }
+      if (added.length > 0 || updated.length > 0 || removed.length > 0) {
+        process.stderr.write(
+          `[caravo] favorites: ${tools.length} ${source} favorite(s), +${added.length} ~${updated.length} -${removed.length} fav tools\n`
+        );
+      }
+      return { source, added, updated, removed, total: tools.length };
+    } finally {
+      if (favoritesRefresh?.promise === promise) favoritesRefresh = null;
     }
+  };
+  const promise = run();
+  favoritesRefresh = { apiKey, promise };
+  return promise;
+}
 
-    // Other error (e.g. 400 bad input)
-    const body = await resp.json().catch(() => ({}));
-    const errorMsg = (body as Record<string, unknown>)?.error ?? `HTTP ${resp.status}`;
-    return {
+/** Register favorites at startup and keep them in sync in the background. */
+async function loadFavoriteTools(server: McpServer) {
+  try {
+    // Local definitions are used as stored at startup; the background refresh revalidates them
+    const { source, total } = await refreshFavoriteTools(server, { revalidate: false });
+    process.stderr.write(`[caravo] loaded ${total} favorited tool(s) from ${source === "account" ? "server" : "local favorites"}\n`);
+  } catch (e) {
+    process.stderr.write(`[caravo] warning: could not load favorites: ${e}\n`);
+  }
+  if (FAVORITES_SYNC_MS > 0) {
+    setInterval(() => {
+      refreshFavoriteTools(server).catch(() => { /* keep the current tools; retry next tick */ });
+    }, FAVORITES_SYNC_MS).unref();
+  }
+}
+
+/** Register (or replace) the recipe:<name> tool for `recipe`. */
+function registerRecipeTool(server: McpServer, recipe: Recipe) {
+  registeredRecipeTools.get(recipe.name)?.remove();
+  const { tool } = recipe;
+
+  const schema = buildRecipeSchemaShape(recipe);
+  schema.dry_run = z.boolean().optional().describe("Preview cost without executing");
+  if (favToolHasArg(tool, "wallet")) {
+    schema.wallet = WALLET_ARG;
+  }
+  if (favToolHasArg(tool, "save_outputs")) {
+    schema.save_outputs = SAVE_OUTPUTS_ARG;
+  }
+  if (favToolHasArg(tool, "inline_media")) {
+    schema.inline_media = INLINE_MEDIA_ARG;
+  }
+
+  const locked = Object.keys(recipe.locked);
+  const registered = server.registerTool(
+    `recipe:${recipe.name}`,
+    {
+      title: `${recipe.name} (${tool.name})`,
+      description:
+        `${recipe.description || tool.description} | Recipe for ${tool.id} [${tool.provider}]` +
+        (locked.length > 0 ? ` | Fixed: ${locked.map((k) => `${k}=${JSON.stringify(recipe.locked[k])}`).join(", ")}` : ""),
+      inputSchema: schema,
+      outputSchema: executionOutput,
+    },
+    makeFavToolHandler(server, tool, recipe)
+  );
+  registeredRecipeTools.set(recipe.name, { remove: () => registered.remove() });
+}
+
+function unregisterRecipeTool(name: string) {
+  registeredRecipeTools.get(name)?.remove();
+  registeredRecipeTools.delete(name);
+}
+
+/** Register the stored recipes at startup. */
+function loadRecipeTools(server: McpServer) {
+  const recipes = readRecipes();
+  for (const recipe of recipes) {
+    try {
+      registerRecipeTool(server, recipe);
+    } catch (e) {
+      process.stderr.write(`[caravo] warning: could not register recipe:${recipe.name}: ${e}\n`);
+    }
+  }
+  if (recipes.length > 0) process.stderr.write(`[caravo] loaded ${recipes.length} recipe(s)\n`);
+}
+
+// ─── Pipelines ──────────────────────────────────────────────────────────────
+
+const MAX_PIPELINE_STEPS = 20;
+
+/**
+ * Run pipeline steps in order through executeTool (the normal payment flow), stopping at the
+ * first step that fails or whose price would take the total past `maxCost`, or after a step
+ * charged more than its listed price. Async jobs are waited for. `tools` holds the definition
+ * of every step's tool.
+ */
+async function runPipeline(
+  server: McpServer,
+  steps: PipelineStep[],
+  tools: Map<string, MarketplaceTool>,
+  opts: { maxCost: number; wallet: Wallet; extra: ToolExtra }
+): Promise<{ results: PipelineStepResult[]; spent: number; failure?: { step: PipelineStep; message: string } }> {
+  const { extra } = opts;
+  const progressToken = extra._meta?.progressToken;
+  const results: PipelineStepResult[] = [];
+  const byId = new Map<string, PipelineStepResult>();
+  let spent = 0;
+  let overcharged: PipelineOverchargeError | undefined;
+
+  for (const [i, step] of steps.entries()) {
+    const stop = (message: string) => ({ results, spent, failure: { step, message } });
+    const tool = tools.get(step.tool_id)!;
+    const price = tool.pricing?.price_per_call;
+
+    let input: Record<string, unknown>;
+    try {
+      // Balance payments aren't capped at the listed price: stop once one went over it
+      if (overcharged) throw overcharged;
+      checkStepBudget(step.id, spent, price, opts.maxCost);
+      const problems = validateToolInput(tool, stripDangerousFields(resolveStepInput(step.input, byId)));
+      if (problems.length > 0) {
+        return stop(`Invalid input for ${tool.id} (step not executed):\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+      }
+      // Local paths come only from the step as written: values filled in from earlier outputs are
+      // third-party data and must never make us read (and upload) a local file
+      const literal = await resolveInputFiles(step.input, extra, { skip: hasStepReferences });
+      input = stripDangerousFields(resolveStepInput(literal, byId));
+    } catch (err) {
+      return stop(`Error: ${err instanceof Error ? err.message : String(err)} (step not executed)`);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let result: any;
+    try {
+      result = await executeTool(server, tool.id, input, {
+        provider: tool.provider,
+        wallet: opts.wallet,
+        priceUsd: price,
+        signal: extra.signal,
+      });
+      if (result.job_id) {
+        const submittedCost = Number(result.cost) || 0;
+        const { status } = await waitForJob(() => fetchJobStatus(String(result.job_id), extra.signal), {
+          timeoutMs: MAX_JOB_WAIT_SECONDS * 1000,
+          signal: extra.signal,
+        });
+        if (status.status !== "succeeded" || status.result?.success === false) {
+          spent = roundUsd(spent + submittedCost);
+          const error = status.error ?? status.result?.error;
+          return stop(
+            isTerminal(status.status)
+              ? `Job ${status.job_id} ${status.status}${error ? `: ${error}` : ""}`
+              : `Job ${status.job_id} is still ${status.status} — call wait_for_job(job_id="${status.job_id}") for its result`
+          );
+        }
+        result = { success: true, ...status.result, cost: status.result?.cost ?? submittedCost };
+      }
+    } catch (err) {
+      return stop(formatExecError(err));
+    }
+
+    if (!result.success) {
+      return stop(
+        result.x402Version || result.accepts
+          ? buildPaymentRequiredMessage(formatOfferPrice(result.accepts) ?? `$${price}`, opts.wallet)
+          : `Error: ${safeJsonText(result, false)}`
+      );
+    }
+    const stepResult: PipelineStepResult = {
+      id: step.id,
+      tool_id: tool.id,
+      execution_id: result.execution_id || null,
+      cost: Number(result.cost) || 0,
+      payment_method: result.payment_method ?? null,
+      ...(result.output ? { output: result.output } : {}),
+    };
+    results.push(stepResult);
+    byId.set(step.id, stepResult);
+    spent = roundUsd(spent + stepResult.cost);
+    if (stepResult.cost > price) overcharged = new PipelineOverchargeError(step.id, stepResult.cost, price);
+
+    if (progressToken !== undefined) {
+      extra
+        .sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress: i + 1, total: steps.length, message: `${step.id} done` },
+        })
+        .catch(() => {});
+    }
+  }
+  return { results, spent };
+}
+
+// ─── Dry-run helper ─────────────────────────────────────────────────────────
+
+async function dryRunProbe(toolId: string, input: Record<string, unknown>, signal?: AbortSignal) {
+  try {
+    // Send a plain POST with no auth/payment headers to trigger a 402 for paid tools
+    const url = `${API_BASE}/api/tools/${toolId}/execute`;
+    const resp = await httpFetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    }, { route: "execute", signal });
+
+    if (resp.status === 402) {
+      // Parse cost from 402 response
+      let cost = "unknown";
+      try {
+        const body = await resp.json();
+        cost = formatOfferPrice(body?.accepts) ?? cost;
+      } catch {
+        // Header fallback
+        const header = resp.headers.get("payment-required");
+        if (header) {
+          try {
+            const pr = JSON.parse(atob(header));
+            cost = formatOfferPrice(pr?.accepts) ?? cost;
+          } catch { /* ignore */ }
+        }
+      }
+      return structuredResult(`Preview: ${toolId} costs ${cost} per call (no payment was made)`, {
+        status: "preview",
+        tool_id: toolId,
+        price: cost,
+      });
+    }
+
+    if (resp.ok) {
+      return structuredResult(`Preview: ${toolId} is free ($0.00 per call)`, {
+        status: "preview",
+        tool_id: toolId,
+        price: "free",
+      });
+    }
+
+    // Other error (e.g. 400 bad input)
+    const body = await resp.json().catch(() => ({}));
+    const errorMsg = (body as Record<string, unknown>)?.error ?? `HTTP ${resp.status}`;
+    return {
       content: [{ type: "text" as const, text: `Dry-run failed: ${errorMsg}` }],
       isError: true,
     };
@@ -660,8 +1652,9 @@ function registerAllTools(server: McpServer) {
         page: z.number().optional().describe("Page number (default 1)"),
         per_page: z.number().optional().describe("Results per page (default 10)"),
       },
+      outputSchema: searchToolsOutput,
     },
-    async ({ query, tag, provider, pricing_type, page = 1, per_page = 10 }) => {
+    async ({ query, tag, provider, pricing_type, page = 1, per_page = 10 }, { signal }) => {
       if (!Number.isInteger(page) || page < 1) {
         return { content: [{ type: "text" as const, text: "Error: page must be a positive integer" }], isError: true };
       }
@@ -680,10 +1673,16 @@ function registerAllTools(server: McpServer) {
         params.set("page", String(page));
         params.set("per_page", String(per_page));
         params.set("view", "agent");
-        const data = await apiGet(`/api/tools?${params}`);
-        return appendUpdateNotice({
-          content: [{ type: "text" as const, text: safeJsonText(data) }],
-        });
+        const data = await apiGet(`/api/tools?${params}`, signal);
+        if (data?.error) {
+          return appendUpdateNotice({ content: [{ type: "text" as const, text: `Error: ${data.error}` }], isError: true });
+        }
+        return appendUpdateNotice(
+          structuredResult(safeJsonText(data), {
+            tools: listItems(data, "tools"),
+            pagination: paginationOf(data, page, per_page),
+          })
+        );
       } catch (err) {
         return appendUpdateNotice({
           content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
@@ -701,9 +1700,11 @@ function registerAllTools(server: McpServer) {
         "Get detailed information about a specific tool including its description, pricing, and input schema.",
       inputSchema: {
         tool_id: z.string().describe("The tool ID or slug (e.g., 'black-forest-labs/flux.1-schnell' for platform tools, 'alice/imagen-4' for community tools)"),
+        refresh: z.boolean().optional().describe("Bypass the local metadata cache and re-fetch from the marketplace"),
       },
+      outputSchema: toolInfoOutput,
     },
-    async ({ tool_id }) => {
+    async ({ tool_id, refresh }, { signal }) => {
       const validationError = validateToolId(tool_id);
       if (validationError) {
         return {
@@ -712,10 +1713,14 @@ function registerAllTools(server: McpServer) {
         };
       }
       try {
-        const data = await apiGet(`/api/tools/${tool_id.trim()}`);
-        return appendUpdateNotice({
-          content: [{ type: "text" as const, text: safeJsonText(data) }],
-        });
+        const data = await apiGetCached(`/api/tools/${tool_id.trim()}`, TOOL_INFO_TTL_MS, { force: refresh, signal });
+        if (!data?.id) {
+          return appendUpdateNotice({
+            content: [{ type: "text" as const, text: `Error: ${data?.error ?? safeJsonText(data, false)}` }],
+            isError: true,
+          });
+        }
+        return appendUpdateNotice(structuredResult(safeJsonText(data), data));
       } catch (err) {
         return appendUpdateNotice({
           content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
@@ -732,7 +1737,7 @@ function registerAllTools(server: McpServer) {
       description:
         "Execute any marketplace tool by ID. Use get_tool_info first to see the required input schema. " +
         "Paid tools auto-pay via x402 (wallet) or API key balance. " +
-        "File upload tip: For any tool field that accepts file input (e.g., image, image_url, video, file, photo, audio, media), you can pass a local file path (e.g., /path/to/photo.jpg, ~/Downloads/image.png, or file:///path/to/file) — it will be automatically uploaded to a cloud CDN URL. Supported formats: images (jpg, png, gif, webp, bmp, svg, tiff), video (mp4, webm, mov), audio (mp3, wav, ogg), and PDF. Prefer passing a URL when available. " +
+        "File upload tip: For any tool field that accepts file input (e.g., image, image_url, video, file, photo, audio, media), you can pass a local file path (e.g., /path/to/photo.jpg, ~/Downloads/image.png, or file:///path/to/file) — it will be automatically uploaded to a cloud CDN URL (large files are streamed, with progress notifications). Supported formats: images (jpg, png, gif, webp, bmp, svg, tiff, heic, avif), video (mp4, webm, mov, mkv), audio (mp3, wav, ogg, m4a, flac), PDF, office documents and text files; paths inside arrays and nested objects work too. Prefer passing a URL when available. " +
         "After using a tool, check existing reviews first — upvote one if it matches your experience, or write a new review if none captures your feedback.",
       inputSchema: {
         tool_id: z.string().describe("The tool ID or slug to execute (e.g., 'black-forest-labs/flux.1-schnell' or 'alice/imagen-4')"),
@@ -740,9 +1745,25 @@ function registerAllTools(server: McpServer) {
           .record(z.string(), z.unknown())
           .describe("Input parameters for the tool (see get_tool_info for schema)"),
         dry_run: z.boolean().optional().describe("Preview execution cost without actually running the tool or making a payment"),
+        wallet: WALLET_ARG,
+        idempotency_key: z
+          .string()
+          .optional()
+          .describe("Key of an interrupted call to resume; returns its original result instead of executing (and paying) again"),
+        async: z
+          .boolean()
+          .optional()
+          .describe("Return a job handle immediately instead of waiting — for long-running tools like video or 3D generation"),
+        save_outputs: SAVE_OUTPUTS_ARG,
+        inline_media: INLINE_MEDIA_ARG,
       },
+      outputSchema: executionOutput,
     },
-    async ({ tool_id, input, dry_run }) => {
+    async (
+      { tool_id, input, dry_run, wallet: walletName, idempotency_key, async: runAsync, save_outputs, inline_media },
+      extra
+    ) => {
+      const { signal } = extra;
       const validationError = validateToolId(tool_id);
       if (validationError) {
         return appendUpdateNotice({
@@ -750,57 +1771,287 @@ function registerAllTools(server: McpServer) {
           isError: true,
         });
       }
-      const cleanInput = resolveLocalFiles(stripDangerousFields(input));
+      const safeInput = stripDangerousFields(input);
+
+      // Check the input against the tool's schema before spending a round trip (or a payment).
+      // If the schema can't be fetched, let the server validate as before.
+      const toolInfo = await fetchToolInfo(tool_id.trim(), signal);
+      const warnings = toolInfo ? unknownInputFields(toolInfo, safeInput) : [];
+      const respond = <T extends { content: Array<{ type: string; text?: string }> }>(result: T) =>
+        appendUpdateNotice(appendInputWarnings(result, warnings));
+      if (toolInfo) {
+        const problems = validateToolInput(toolInfo, safeInput);
+        if (problems.length > 0) {
+          return respond({
+            content: [{
+              type: "text" as const,
+              text: [
+                `Invalid input for ${tool_id.trim()} (nothing was executed or paid):`,
+                ...problems.map((p) => `  - ${p}`),
+                ``,
+                `Use get_tool_info to see the full input schema.`,
+              ].join("\n"),
+            }],
+            isError: true,
+          });
+        }
+      }
+      let cleanInput: Record<string, unknown>;
+      try {
+        // A dry run only previews the price: check local files, but don't read or upload them
+        cleanInput = await resolveInputFiles(safeInput, extra, { checkOnly: dry_run });
+      } catch (err) {
+        return respond({
+          content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)} (nothing was executed or paid)` }],
+          isError: true,
+        });
+      }
 
       // Dry-run mode: probe cost without executing or paying
       if (dry_run) {
-        return appendUpdateNotice(await dryRunProbe(tool_id.trim(), cleanInput));
+        return respond(await dryRunProbe(tool_id.trim(), cleanInput, signal));
       }
 
       try {
-        const result = await apiPost(`/api/tools/${tool_id.trim()}/execute`, cleanInput);
+        const payer = await resolveWallet(walletName);
+        const result = await executeTool(server, tool_id.trim(), cleanInput, {
+          wallet: payer,
+          priceUsd: toolInfo?.pricing?.price_per_call,
+          signal,
+          idempotencyKey: idempotency_key,
+          async: runAsync,
+        });
+
+        if (result.job_id) {
+          return respond(
+            structuredResult(jobHandleText(tool_id.trim(), result), executionStructured(tool_id.trim(), result))
+          );
+        }
 
         if (result.success) {
           const execId = result.execution_id || null;
           const reviewLines = buildPostExecPrompt(execId, tool_id.trim());
+          const saved = save_outputs ? await saveOutputs(result.output, { executionId: execId, signal }) : undefined;
           const lines = [
             `✓ Tool: ${tool_id} | Cost: $${result.cost} (${result.payment_method})`,
             ...(execId ? [`  Execution ID: ${execId}`] : []),
             ...formatOutput(result.output),
+            ...(saved ? formatSavedOutputs(saved) : []),
             ...reviewLines,
           ];
-          return appendUpdateNotice({
-            content: [{ type: "text" as const, text: lines.join("\n") }],
+          return respond({
+            content: [
+              { type: "text" as const, text: lines.join("\n") },
+              ...(await buildMediaContent(result.output, { mode: inline_media, signal })),
+            ],
+            structuredContent: executionStructured(tool_id.trim(), result, saved),
           });
         }
 
         if (result.x402Version || result.accepts) {
-          const price = result.accepts?.[0]?.amount
-            ? `$${(parseInt(result.accepts[0].amount) / 1e6).toFixed(6)}`
-            : "?";
-          return appendUpdateNotice({
-            content: [{ type: "text" as const, text: buildPaymentRequiredMessage(price) }],
+          const price = formatOfferPrice(result.accepts) ?? "?";
+          return respond({
+            content: [{ type: "text" as const, text: buildPaymentRequiredMessage(price, payer) }],
             isError: true,
           });
         }
 
-        return appendUpdateNotice({
+        return respond({
           content: [
             { type: "text" as const, text: `Error: ${safeJsonText(result, false)}${FALLBACK_HINT}` },
           ],
           isError: true,
         });
       } catch (err) {
-        return appendUpdateNotice({
-          content: [
-            {
-              type: "text" as const,
-              text: `Error: ${err instanceof Error ? err.message : String(err)}${FALLBACK_HINT}`,
-            },
-          ],
+        return respond({
+          content: [{ type: "text" as const, text: formatExecError(err) }],
+          isError: true,
+        });
+      }
+    }
+  );
+
+  // ── run_pipeline ─────────────────────────────────────────────────────────────
+  server.registerTool(
+    "run_pipeline",
+    {
+      description:
+        "Run several marketplace tools in sequence, feeding earlier results into later inputs — e.g. OCR → translation → text-to-speech in one call. " +
+        "Strings in a step's input can reference earlier steps: {{steps.<id>.output.<field>}} (e.g. {{steps.ocr.output.text}} or {{steps.img.output.images.0.url}}), " +
+        "{{steps.<id>.execution_id}} or {{steps.<id>.cost}}. " +
+        "Each step is executed and paid like use_tool. Nothing runs if the steps' prices add up to more than max_cost or any step's tool has no listed price, and the pipeline stops before any step that would exceed it. " +
+        "The budget is checked against listed prices; if a step is charged more than its listed price (possible with balance payments), the pipeline stops before the next step. " +
+        "Returns every step's execution ID and cost, and the last step's output.",
+      inputSchema: {
+        steps: z
+          .array(
+            z.object({
+              id: z.string().describe("Step ID used in references (letters, digits, - and _; e.g. 'ocr')"),
+              tool_id: z.string().describe("The tool ID to execute (see get_tool_info for its input schema)"),
+              input: z
+                .record(z.string(), z.unknown())
+                .describe("Input parameters for the tool; strings may contain {{steps.<id>...}} references"),
+            })
+          )
+          .min(1)
+          .max(MAX_PIPELINE_STEPS)
+          .describe(`Steps to run in order (at most ${MAX_PIPELINE_STEPS})`),
+        max_cost: z.number().positive().describe("Budget in USD for the whole pipeline"),
+        dry_run: z.boolean().optional().describe("Check the pipeline and preview its cost without executing anything"),
+        wallet: WALLET_ARG,
+        save_outputs: z
+          .boolean()
+          .optional()
+          .describe("Download the last step's output images/audio/video to the local output directory and return their paths"),
+        inline_media: INLINE_MEDIA_ARG,
+      },
+      outputSchema: pipelineOutput,
+    },
+    async ({ steps: rawSteps, max_cost, dry_run, wallet: walletName, save_outputs, inline_media }, extra) => {
+      const { signal } = extra;
+      const invalid = (lines: string[]) =>
+        appendUpdateNotice({
+          content: [{ type: "text" as const, text: [`Invalid pipeline (nothing was executed or paid):`, ...lines].join("\n") }],
+          isError: true,
+        });
+
+      const steps = rawSteps.map((s) => ({ ...s, tool_id: s.tool_id.trim() }));
+      const stepProblems = [
+        ...steps.flatMap((s) => {
+          const error = validateToolId(s.tool_id);
+          return error ? [`step "${s.id}": ${error}`] : [];
+        }),
+        ...checkPipeline(steps),
+      ];
+      if (stepProblems.length > 0) return invalid(stepProblems.map((p) => `  - ${p}`));
+
+      // Every tool's definition and price up front, so the budget is checked before anything is paid
+      const tools = new Map<string, MarketplaceTool>();
+      for (const step of steps) {
+        if (tools.has(step.tool_id)) continue;
+        const tool = await fetchToolInfo(step.tool_id, signal);
+        if (!tool) return invalid([`  - step "${step.id}": tool "${step.tool_id}" not found (or the marketplace is unreachable)`]);
+        tools.set(step.tool_id, tool);
+      }
+      // Inputs that don't depend on earlier steps can be validated now; the rest once resolved
+      const inputProblems = steps.flatMap((s) =>
+        hasStepReferences(s.input)
+          ? []
+          : validateToolInput(tools.get(s.tool_id)!, stripDangerousFields(s.input)).map((p) => `  - step "${s.id}": ${p}`)
+      );
+      if (inputProblems.length > 0) return invalid([...inputProblems, ``, `Use get_tool_info to see the full input schema.`]);
+      // Field names aren't substituted, so every step's can be checked now
+      const warnings = steps.flatMap((s) =>
+        unknownInputFields(tools.get(s.tool_id)!, stripDangerousFields(s.input)).map((w) => `step "${s.id}": ${w}`)
+      );
+      const respond = <T extends { content: Array<{ type: string; text?: string }> }>(result: T) =>
+        appendUpdateNotice(appendInputWarnings(result, warnings));
+
+      const priced = steps.map((s) => {
+        const price = tools.get(s.tool_id)!.pricing?.price_per_call;
+        return { id: s.id, tool_id: s.tool_id, price_per_call: typeof price === "number" ? price : undefined };
+      });
+      // A step without a listed price could cost anything, so no budget can be guaranteed for it
+      const unpriced = priced.filter((s) => s.price_per_call === undefined).map((s) => `"${s.id}"`);
+      const estimate = roundUsd(priced.reduce((sum, s) => sum + (s.price_per_call ?? 0), 0));
+      const priceLines = priced.map(
+        (s) => `  ${s.id}: ${s.tool_id} | ${s.price_per_call === undefined ? "no listed price" : `$${s.price_per_call}/call`}`
+      );
+
+      if (dry_run) {
+        const verdict = unpriced.length > 0 ? " — can't run: not every step has a listed price" : estimate > max_cost ? " — over budget" : "";
+        return respond(
+          structuredResult(
+            [
+              `Pipeline preview: ${steps.length} step(s), estimated cost $${estimate} (budget $${max_cost})${verdict}`,
+              ...priceLines,
+            ].join("\n"),
+            { status: "preview", steps: priced, total_cost: estimate, max_cost }
+          )
+        );
+      }
+      if (unpriced.length > 0) {
+        return respond({
+          content: [{
+            type: "text" as const,
+            text: [
+              `${unpriced.length === 1 ? "Step" : "Steps"} ${unpriced.join(", ")} ${unpriced.length === 1 ? "has" : "have"} no listed price, so the $${max_cost} budget can't be guaranteed (nothing was executed or paid):`,
+              ...priceLines,
+            ].join("\n"),
+          }],
           isError: true,
         });
       }
+      if (estimate > max_cost) {
+        return respond({
+          content: [{
+            type: "text" as const,
+            text: [
+              `Estimated cost $${estimate} exceeds max_cost $${max_cost} (nothing was executed or paid):`,
+              ...priceLines,
+            ].join("\n"),
+          }],
+          isError: true,
+        });
+      }
+
+      let payer: Wallet;
+      try {
+        payer = await resolveWallet(walletName);
+      } catch (err) {
+        return respond({
+          content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)} (nothing was executed or paid)` }],
+          isError: true,
+        });
+      }
+
+      const { results, spent, failure } = await runPipeline(server, steps, tools, { maxCost: max_cost, wallet: payer, extra });
+      const stepLines = results.map(
+        (r) => `  ✓ ${r.id}: ${r.tool_id} | Cost: $${r.cost} (${r.payment_method})${r.execution_id ? ` | Execution ID: ${r.execution_id}` : ""}`
+      );
+
+      if (failure) {
+        return respond({
+          content: [{
+            type: "text" as const,
+            text: [
+              `✗ Pipeline stopped at step "${failure.step.id}" (${results.length + 1} of ${steps.length}); later steps were not run.`,
+              failure.message,
+              ``,
+              `Completed steps (total spent: $${spent}):`,
+              ...(stepLines.length > 0 ? stepLines : ["  (none)"]),
+            ].join("\n"),
+          }],
+          isError: true,
+        });
+      }
+
+      const last = results[results.length - 1];
+      const saved = save_outputs ? await saveOutputs(last.output, { executionId: last.execution_id, signal }) : undefined;
+      const lines = [
+        `✓ Pipeline finished: ${results.length} step(s) | Total cost: $${spent} (budget $${max_cost})`,
+        ...(spent > max_cost ? [`⚠ The last step was charged more than its listed price, taking the total over budget.`] : []),
+        ...stepLines,
+        ``,
+        `Output of "${last.id}":`,
+        ...formatOutput(last.output),
+        ...(saved ? formatSavedOutputs(saved) : []),
+        ...buildPostExecPrompt(last.execution_id, last.tool_id),
+      ];
+      return respond({
+        content: [
+          { type: "text" as const, text: lines.join("\n") },
+          ...(await buildMediaContent(last.output, { mode: inline_media, signal })),
+        ],
+        structuredContent: {
+          status: "success",
+          steps: results,
+          total_cost: spent,
+          max_cost,
+          ...(last.output ? { output: last.output } : {}),
+          ...(saved ? { saved_outputs: saved.saved } : {}),
+        },
+      });
     }
   );
 
@@ -854,10 +2105,8 @@ function registerAllTools(server: McpServer) {
             const lines = [`✓ ${action} review ${upvote_review_id}`];
             // Suggest favorite only when upvoting a 5-star review
             if (result.rating === 5 && upvotedToolId) {
-              if (API_KEY && !registeredFavTools.has(upvotedToolId)) {
+              if (!registeredFavTools.has(upvotedToolId)) {
                 lines.push(`This was a 5/5 review — consider favorite_tool(tool_id="${upvotedToolId}") if you plan to reuse it.`);
-              } else if (!API_KEY) {
-                lines.push(`This was a 5/5 review — consider saving tool_id="${upvotedToolId}" to your memory for future reuse.`);
               }
             }
             return appendUpdateNotice({ content: [{ type: "text" as const, text: lines.join("\n") }] });
@@ -897,25 +2146,452 @@ function registerAllTools(server: McpServer) {
         });
 
         if (result.error) {
-          return appendUpdateNotice({
+          return appendUpdateNotice({
+            content: [{ type: "text" as const, text: `Error: ${result.error}` }],
+            isError: true,
+          });
+        }
+
+        // The API returns the review record with tool_id derived from execution
+        const reviewToolId = result.tool_id || "unknown";
+        const lines = [
+          `✓ Review submitted for ${reviewToolId} (${rating}/5)`,
+        ];
+        if (rating === 5) {
+          if (!registeredFavTools.has(reviewToolId)) {
+            lines.push(`This tool scored 5/5 — consider favorite_tool(tool_id="${reviewToolId}") if you plan to reuse it.`);
+          }
+        }
+        return appendUpdateNotice({ content: [{ type: "text" as const, text: lines.join("\n") }] });
+      } catch (err) {
+        return appendUpdateNotice({
+          content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
+          isError: true,
+        });
+      }
+    }
+  );
+
+
+  // ── Wallet info ──────────────────────────────────────────────────────────────
+  server.registerTool(
+    "get_wallet_info",
+    {
+      description:
+        "Get your local x402 wallet address and USDC balance. Send USDC to this address to fund automatic payments. " +
+        "Reports which wallet profile is active.",
+      inputSchema: {
+        wallet: z.string().optional().describe("Wallet profile to inspect (default: the active wallet)"),
+        refresh: z.boolean().optional().describe("Bypass the short balance cache"),
+      },
+      outputSchema: walletInfoOutput,
+    },
+    async ({ wallet: walletName, refresh }) => {
+      let target: Wallet;
+      try {
+        target = await resolveWallet(walletName);
+      } catch (err) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
+          isError: true,
+        };
+      }
+
+      const info: Record<string, unknown> = {
+        wallet: target.name,
+        active_wallet: ACTIVE_WALLET,
+        address: target.address,
+        network: `${PAYMENT_NETWORK.name} (${PAYMENT_NETWORK.caip2})`,
+      };
+
+      // RPC failures are reported as such — never as a zero balance
+      let isWalletEmpty = true;
+      try {
+        const balances = await getBalances(target.address, PAYMENT_NETWORK.caip2, refresh ?? false);
+        info.usdc_balance = formatUsdc(balances.usdc, PAYMENT_NETWORK.caip2);
+        info.native_balance = `${formatEther(balances.native)} ${PAYMENT_NETWORK.chain.nativeCurrency.symbol}`;
+        if (balances.pending > 0n) {
+          info.pending_authorizations = formatUsdc(balances.pending, PAYMENT_NETWORK.caip2);
+          info.available_usdc = formatUsdc(balances.available, PAYMENT_NETWORK.caip2);
+        }
+        isWalletEmpty = balances.available === 0n;
+      } catch (err) {
+        info.usdc_balance = "unknown";
+        info.balance_error = err instanceof Error ? err.message : String(err);
+      }
+
+      if (PAYMENT_NETWORK.testnet) {
+        info.faucet = "Testnet USDC is free: https://faucet.circle.com";
+      }
+
+      const spend = getSpendStatus();
+      if (Object.values(spend.limits).some((v) => v !== undefined)) {
+        info.spend_limits = spend;
+      }
+
+      // Build funding guidance for empty (or unknown) wallets
+      if (isWalletEmpty && !API_KEY) {
+        info.funding_guide = [
+          "Your wallet has no USDC. Two options to get started:",
+          "",
+          "Option A — Caravo balance (recommended):",
+          '  Run the "login" tool to connect your account, then top up at https://www.caravo.ai/dashboard',
+          "",
+          "Option B — USDC wallet (no registration):",
+          `  Send USDC on ${PAYMENT_NETWORK.name} to ${target.address}`,
+          "",
+          "Top up once to unlock 200+ tools at $0.001–$0.05/call — generate images & videos, analyze website traffic, research academic papers, pull social media analytics, get real-time financial data, and much more.",
+        ].join("\n");
+      } else if (isWalletEmpty && API_KEY) {
+        info.funding_guide = [
+          "Your wallet has no USDC.",
+          "",
+          "Top up your Caravo balance at https://www.caravo.ai/dashboard",
+          `Or send USDC on ${PAYMENT_NETWORK.name} to ${target.address}`,
+        ].join("\n");
+      } else {
+        info.note = `Send USDC on ${PAYMENT_NETWORK.name} to this address to enable automatic x402 payments.`;
+      }
+
+      return appendUpdateNotice(structuredResult(JSON.stringify(info, null, 2), info));
+    }
+  );
+
+  // ── Wallet profiles ─────────────────────────────────────────────────────────
+  server.registerTool(
+    "list_wallets",
+    {
+      description:
+        "List local wallet profiles (name, address, storage backend). Select one per call with the `wallet` argument " +
+        "of use_tool / fav:* tools, or for the whole session with the CARAVO_WALLET env var.",
+      inputSchema: {},
+      outputSchema: walletsOutput,
+    },
+    async () => {
+      const data = {
+        active_wallet: ACTIVE_WALLET,
+        wallets: listWallets().map((w) => ({ ...w, active: w.name === ACTIVE_WALLET })),
+      };
+      return appendUpdateNotice(structuredResult(safeJsonText(data), data));
+    }
+  );
+
+  server.registerTool(
+    "import_wallet",
+    {
+      description:
+        "Import an existing private key or BIP-39 mnemonic as a new named wallet profile. " +
+        "The secret is read from a local file or an environment variable of this server — never ask the user to paste it into the chat. " +
+        "The key is stored with the configured wallet backend (plaintext, keystore, keyring or command). " +
+        "Existing profiles are never overwritten.",
+      inputSchema: {
+        name: z.string().describe("Profile name (letters, numbers, hyphens, underscores)"),
+        key_file: z
+          .string()
+          .optional()
+          .describe("Path of a file holding the hex private key or the mnemonic phrase (e.g. ~/Downloads/key.txt)"),
+        key_env: z
+          .string()
+          .optional()
+          .describe("Name of an environment variable of the MCP server holding the private key or mnemonic (alternative to key_file)"),
+        address_index: z.number().optional().describe("HD account index for mnemonic import (default 0)"),
+      },
+    },
+    async ({ name, key_file, key_env, address_index }) => {
+      if (!key_file === !key_env) {
+        return {
+          content: [{ type: "text" as const, text: "Error: provide exactly one of key_file or key_env" }],
+          isError: true,
+        };
+      }
+      try {
+        const secret = parseWalletSecret(readSecretSource({ file: key_file, env: key_env }), address_index);
+        const imported = await importWallet(WALLET_BACKEND, name, secret);
+        process.stderr.write(`[caravo] wallet: imported ${imported.address} as "${name}"\n`);
+        return appendUpdateNotice({
+          content: [
+            {
+              type: "text" as const,
+              text: [
+                `✓ Imported wallet "${name}" (${imported.address})`,
+                ``,
+                `Pay from it with wallet="${name}" on use_tool or fav:* tools,`,
+                `or set CARAVO_WALLET=${name} to make it the active wallet.`,
+              ].join("\n"),
+            },
+          ],
+        });
+      } catch (err) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    "export_wallet",
+    {
+      description:
+        "Export a wallet profile's address, or an encrypted Ethereum V3 keystore (importable into MetaMask, geth, Foundry). " +
+        "The raw private key is never returned.",
+      inputSchema: {
+        name: z.string().optional().describe("Profile name (default: the active wallet)"),
+        format: z.enum(["address", "keystore"]).optional().describe("What to export (default: address)"),
+        passphrase_file: z
+          .string()
+          .optional()
+          .describe("Path of a file holding the passphrase to encrypt the keystore with (default: CARAVO_WALLET_PASSPHRASE, or the stored keystore as-is)"),
+        passphrase_env: z
+          .string()
+          .optional()
+          .describe("Name of an environment variable of the MCP server holding the passphrase (alternative to passphrase_file)"),
+      },
+      outputSchema: exportWalletOutput,
+    },
+    async ({ name, format = "address", passphrase_file, passphrase_env }) => {
+      try {
+        const passphrase =
+          passphrase_file || passphrase_env ? readSecretSource({ file: passphrase_file, env: passphrase_env }) : undefined;
+        const target = await resolveWallet(name);
+        const profile = target.name ?? ACTIVE_WALLET;
+        const data =
+          format === "address"
+            ? { wallet: profile, address: target.address }
+            : { wallet: profile, address: target.address, keystore: await exportKeystore(WALLET_BACKEND, target, passphrase) };
+        return appendUpdateNotice(structuredResult(JSON.stringify(data, null, 2), data));
+      } catch (err) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // ── Spending history (local ledger) ─────────────────────────────────────────
+  const ledgerFilterSchema = {
+    from: z.string().optional().describe("Start date, inclusive (ISO 8601, e.g. '2025-01-01')"),
+    to: z.string().optional().describe("End date, inclusive (ISO 8601; a bare date covers the whole day)"),
+    tool_id: z.string().optional().describe("Only include executions of this tool"),
+    provider: z.string().optional().describe("Only include executions from this provider"),
+    outcome: z.enum(["success", "error", "payment_required", "submitted"]).optional().describe("Only include executions with this outcome"),
+  };
+
+  server.registerTool(
+    "get_spending_history",
+    {
+      description:
+        "List past tool executions from the local ledger (~/.caravo/ledger.jsonl) with cost, payment method, execution ID and x402 nonce. " +
+        "Filter by date range, tool or provider. Includes a totals summary for the matched entries.",
+      inputSchema: {
+        ...ledgerFilterSchema,
+        limit: z.number().optional().describe("Max entries to return, most recent first (default 50)"),
+      },
+      outputSchema: spendingHistoryOutput,
+    },
+    async ({ limit = 50, ...filter }) => {
+      if (!Number.isInteger(limit) || limit < 1) {
+        return { content: [{ type: "text" as const, text: "Error: limit must be a positive integer" }], isError: true };
+      }
+      try {
+        const entries = queryLedger(filter);
+        const data = {
+          total_matched: entries.length,
+          summary: summarizeLedger(entries),
+          entries: entries.slice(-limit).reverse(),
+        };
+        return appendUpdateNotice(structuredResult(safeJsonText(data), data));
+      } catch (err) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    "get_spending_summary",
+    {
+      description:
+        "Summarise spend from the local ledger: total cost and call counts grouped by tool, provider, payment method and day. " +
+        "Filter by date range, tool or provider.",
+      inputSchema: ledgerFilterSchema,
+      outputSchema: spendingSummaryOutput,
+    },
+    async (filter) => {
+      try {
+        const summary = summarizeLedger(queryLedger(filter));
+        return appendUpdateNotice(structuredResult(safeJsonText(summary), summary));
+      } catch (err) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    "get_execution_status",
+    {
+      description:
+        "Look up the outcome of an execution by its idempotency key — e.g. after use_tool timed out or was cancelled. " +
+        "Checks the local record first, then asks the marketplace for calls that never got a response.",
+      inputSchema: {
+        idempotency_key: z.string().describe("Idempotency key reported by the interrupted use_tool / fav:* call"),
+      },
+      outputSchema: executionStatusOutput,
+    },
+    async ({ idempotency_key }, { signal }) => {
+      const local = getExecutionRecord(idempotency_key);
+      const localView = local ? { ...local, fingerprint: undefined } : null;
+      if (local?.status === "completed") {
+        const data = { idempotency_key, local: localView };
+        return appendUpdateNotice(structuredResult(safeJsonText(data), data));
+      }
+      try {
+        const remote = await apiGet(`/api/executions?idempotency_key=${encodeURIComponent(idempotency_key)}`, signal);
+        if (remote?.error) {
+          if (!local) {
+            return {
+              content: [{ type: "text" as const, text: `Error: ${remote.error}` }],
+              isError: true,
+            };
+          }
+        } else if (local && (remote?.success !== undefined || remote?.execution_id)) {
+          completeExecution(idempotency_key, remote);
+        }
+        const data = {
+          idempotency_key,
+          local: localView,
+          server: remote,
+          ...(local?.status === "pending"
+            ? { hint: `Retry the same call, or pass idempotency_key="${idempotency_key}" to use_tool, to get the result without paying again.` }
+            : {}),
+        };
+        return appendUpdateNotice(structuredResult(safeJsonText(data), data));
+      } catch (err) {
+        if (local) {
+          const data = {
+            idempotency_key,
+            local: localView,
+            server_error: err instanceof Error ? err.message : String(err),
+          };
+          return appendUpdateNotice(structuredResult(safeJsonText(data), data));
+        }
+        return {
+          content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // ── Async jobs ───────────────────────────────────────────────────────────────
+  const JOB_ID_ARG = z.string().describe("Job ID returned by use_tool with async: true");
+  const invalidJobId = (job_id: string) =>
+    SERVER_ID_RE.test(job_id)
+      ? null
+      : { content: [{ type: "text" as const, text: "Error: Invalid job_id format" }], isError: true };
+
+  server.registerTool(
+    "get_job_status",
+    {
+      description: "Check an async job started with use_tool(async: true). Returns the output once the job has succeeded.",
+      inputSchema: { job_id: JOB_ID_ARG },
+      outputSchema: jobStatusOutput,
+    },
+    async ({ job_id }, { signal }) => {
+      const invalid = invalidJobId(job_id);
+      if (invalid) return invalid;
+      try {
+        return await jobStatusResult(await fetchJobStatus(job_id, signal), { signal });
+      } catch (err) {
+        return appendUpdateNotice({
+          content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
+          isError: true,
+        });
+      }
+    }
+  );
+
+  server.registerTool(
+    "wait_for_job",
+    {
+      description:
+        "Wait for an async job to finish, sending progress notifications while it runs, and return its output. " +
+        `Gives up after timeout_seconds (default ${DEFAULT_JOB_WAIT_SECONDS}) — call again to keep waiting.`,
+      inputSchema: {
+        job_id: JOB_ID_ARG,
+        timeout_seconds: z
+          .number()
+          .optional()
+          .describe(`How long to wait before returning the current status (default ${DEFAULT_JOB_WAIT_SECONDS}, max ${MAX_JOB_WAIT_SECONDS})`),
+      },
+      outputSchema: jobStatusOutput,
+    },
+    async ({ job_id, timeout_seconds = DEFAULT_JOB_WAIT_SECONDS }, extra) => {
+      const invalid = invalidJobId(job_id);
+      if (invalid) return invalid;
+      const timeoutMs = Math.min(Math.max(timeout_seconds, 0), MAX_JOB_WAIT_SECONDS) * 1000;
+      const progressToken = extra._meta?.progressToken;
+      let lastProgress = 0;
+      try {
+        const { status, timedOut } = await waitForJob(() => fetchJobStatus(job_id, extra.signal), {
+          timeoutMs,
+          signal: extra.signal,
+          onPoll: (status, elapsedMs) => {
+            if (progressToken === undefined) return;
+            // Report percent when the server knows it, otherwise elapsed seconds; progress must not decrease
+            const percent = typeof status.progress === "number" ? Math.round(status.progress * 100) : undefined;
+            lastProgress = Math.max(lastProgress, percent ?? Math.round(elapsedMs / 1000));
+            extra
+              .sendNotification({
+                method: "notifications/progress",
+                params: {
+                  progressToken,
+                  progress: lastProgress,
+                  ...(percent !== undefined ? { total: 100 } : {}),
+                  message: `${status.status}${status.message ? ` — ${status.message}` : ""}`,
+                },
+              })
+              .catch(() => {});
+          },
+        });
+        return await jobStatusResult(status, { timedOut, signal: extra.signal });
+      } catch (err) {
+        return appendUpdateNotice({
+          content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
+          isError: true,
+        });
+      }
+    }
+  );
+
+  server.registerTool(
+    "cancel_job",
+    {
+      description: "Cancel an async job that is still queued or running. Whether the call is refunded is up to the provider.",
+      inputSchema: { job_id: JOB_ID_ARG },
+      outputSchema: cancelJobOutput,
+    },
+    async ({ job_id }, { signal }) => {
+      const invalid = invalidJobId(job_id);
+      if (invalid) return invalid;
+      try {
+        const result = await apiPostUnpaid(`/api/jobs/${job_id}/cancel`, {}, signal);
+        if (result.error) {
+          return {
             content: [{ type: "text" as const, text: `Error: ${result.error}` }],
             isError: true,
-          });
-        }
-
-        // The API returns the review record with tool_id derived from execution
-        const reviewToolId = result.tool_id || "unknown";
-        const lines = [
-          `✓ Review submitted for ${reviewToolId} (${rating}/5)`,
-        ];
-        if (rating === 5) {
-          if (API_KEY && !registeredFavTools.has(reviewToolId)) {
-            lines.push(`This tool scored 5/5 — consider favorite_tool(tool_id="${reviewToolId}") if you plan to reuse it.`);
-          } else if (!API_KEY) {
-            lines.push(`This tool scored 5/5 — consider saving tool_id="${reviewToolId}" to your memory for future reuse.`);
-          }
+          };
         }
-        return appendUpdateNotice({ content: [{ type: "text" as const, text: lines.join("\n") }] });
+        const status = String(result.status ?? "cancelled");
+        updateJobStatus(job_id, status as JobStatus["status"]);
+        return appendUpdateNotice(structuredResult(`Job ${job_id}: ${status}`, { job_id, status }));
       } catch (err) {
         return appendUpdateNotice({
           content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
@@ -925,79 +2601,48 @@ function registerAllTools(server: McpServer) {
     }
   );
 
-
-  // ── Wallet info ──────────────────────────────────────────────────────────────
+  // ── Save outputs ─────────────────────────────────────────────────────────────
   server.registerTool(
-    "get_wallet_info",
+    "save_output",
     {
       description:
-        "Get your local x402 wallet address and USDC balance. Send USDC on Base to this address to fund automatic payments.",
-      inputSchema: {},
+        "Download the output assets (images, audio, video, files) of a past execution to local files, " +
+        `before their remote URLs expire. Files go to ${getOutputDir()} (set CARAVO_OUTPUT_DIR to change).`,
+      inputSchema: {
+        execution_id: z.string().describe("Execution ID from a use_tool / fav:* / wait_for_job response"),
+      },
+      outputSchema: savedOutputsOutput,
     },
-    async () => {
-      let balance = "unknown (check manually)";
+    async ({ execution_id }, { signal }) => {
+      if (!SERVER_ID_RE.test(execution_id)) {
+        return { content: [{ type: "text" as const, text: "Error: Invalid execution_id format" }], isError: true };
+      }
       try {
-        const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
-        const data =
-          "0x70a08231000000000000000000000000" +
-          wallet.address.slice(2).toLowerCase();
-        const r = await fetch("https://mainnet.base.org", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            jsonrpc: "2.0",
-            id: 1,
-            method: "eth_call",
-            params: [{ to: USDC, data }, "latest"],
-          }),
-        });
-        const d = (await r.json()) as { result?: string };
-        if (d.result && d.result !== "0x") {
-          balance = (parseInt(d.result, 16) / 1e6).toFixed(6) + " USDC";
+        // Results of calls made from this machine are kept locally; otherwise ask the marketplace
+        let output = (findExecutionByExecutionId(execution_id)?.result as { output?: Record<string, unknown> } | undefined)?.output;
+        if (!output) {
+          const remote = await apiGet(`/api/executions/${execution_id}`, signal);
+          if (remote?.error) {
+            return { content: [{ type: "text" as const, text: `Error: ${remote.error}` }], isError: true };
+          }
+          output = remote?.output ?? remote?.result?.output;
         }
-      } catch {
-        // ignore
-      }
-
-      const info: Record<string, unknown> = {
-        address: wallet.address,
-        network: "Base mainnet (eip155:8453)",
-        usdc_balance: balance,
-      };
-
-      // Check if wallet is empty and build funding guidance
-      const isWalletEmpty = balance === "0.000000 USDC" || balance === "unknown (check manually)";
-      if (isWalletEmpty && !API_KEY) {
-        info.funding_guide = [
-          "Your wallet has no USDC. Two options to get started:",
-          "",
-          "Option A — Caravo balance (recommended):",
-          '  Run the "login" tool to connect your account, then top up at https://www.caravo.ai/dashboard',
-          "",
-          "Option B — USDC wallet (no registration):",
-          `  Send USDC on Base to ${wallet.address}`,
-          "",
-          "Top up once to unlock 200+ tools at $0.001–$0.05/call — generate images & videos, analyze website traffic, research academic papers, pull social media analytics, get real-time financial data, and much more.",
-        ].join("\n");
-      } else if (isWalletEmpty && API_KEY) {
-        info.funding_guide = [
-          "Your wallet has no USDC.",
-          "",
-          "Top up your Caravo balance at https://www.caravo.ai/dashboard",
-          `Or send USDC on Base to ${wallet.address}`,
-        ].join("\n");
-      } else {
-        info.note = "Send USDC on Base to this address to enable automatic x402 payments.";
-      }
-
-      return appendUpdateNotice({
-        content: [
-          {
+        const saved = await saveOutputs(output, { executionId: execution_id, signal });
+        return appendUpdateNotice({
+          content: [{
             type: "text" as const,
-            text: JSON.stringify(info, null, 2),
-          },
-        ],
-      });
+            text: [`Outputs of execution ${execution_id}:`, ...formatSavedOutputs(saved)].join("\n"),
+          }],
+          ...(saved.saved.length === 0 && saved.failed.length > 0
+            ? { isError: true }
+            : { structuredContent: { execution_id, ...saved } }),
+        });
+      } catch (err) {
+        return appendUpdateNotice({
+          content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
+          isError: true,
+        });
+      }
     }
   );
 
@@ -1011,13 +2656,13 @@ function registerAllTools(server: McpServer) {
         "Run this if you started with x402 payments and now want to use your account balance.",
       inputSchema: {},
     },
-    async () => {
+    async (_args, { signal }) => {
       try {
         // 1. Create one-time session
-        const initRes = await fetch(`${API_BASE}/api/auth/mcp-session`, {
+        const initRes = await httpFetch(`${API_BASE}/api/auth/mcp-session`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-        });
+        }, { signal });
         const { token, url } = (await initRes.json()) as { token: string; url: string };
 
         // 2. Open browser
@@ -1036,8 +2681,11 @@ function registerAllTools(server: McpServer) {
         const deadline = Date.now() + 5 * 60 * 1000;
         while (Date.now() < deadline) {
           await new Promise((r) => setTimeout(r, 2000));
-          const pollRes = await fetch(
-            `${API_BASE}/api/auth/mcp-session?token=${encodeURIComponent(token)}`
+          if (signal.aborted) throw new RequestCancelledError(`${API_BASE}/api/auth/mcp-session`);
+          const pollRes = await httpFetch(
+            `${API_BASE}/api/auth/mcp-session?token=${encodeURIComponent(token)}`,
+            {},
+            { signal }
           );
           const poll = (await pollRes.json()) as {
             status: string;
@@ -1047,8 +2695,10 @@ function registerAllTools(server: McpServer) {
           if (poll.status === "completed" && poll.api_key) {
             // 4. Save to config + activate for this session
             API_KEY = poll.api_key;
-            saveConfig({ api_key: poll.api_key });
+            saveConfig({ ...loadConfig(), api_key: poll.api_key });
             process.stderr.write(`[caravo] login: API key saved to ${CONFIG_FILE}\n`);
+            const sync = await syncFavoritesToAccount().catch(() => null);
+            const favorites = await refreshFavoriteTools(server).catch(() => null);
 
             return {
               content: [
@@ -1059,7 +2709,11 @@ function registerAllTools(server: McpServer) {
                     ``,
                     `API key saved to ${CONFIG_FILE}`,
                     `Balance payments are now active for this session.`,
-                    `Restart the MCP server to also load your favorited tools.`,
+                    ...(sync?.synced.length ? [`Synced ${sync.synced.length} local favorite(s) to your account.`] : []),
+                    ...(sync?.failed.length
+                      ? [`Could not sync ${sync.failed.map((f) => f.tool_id).join(", ")} — they stay local and are retried on the next refresh.`]
+                      : []),
+                    ...(favorites?.total ? [`Loaded ${favorites.total} favorited tool(s) as fav:* tools.`] : []),
                   ].join("\n"),
                 },
               ],
@@ -1099,7 +2753,7 @@ function registerAllTools(server: McpServer) {
     {
       description:
         "Disconnect your Caravo account and switch back to x402 wallet payments. " +
-        "Removes the saved API key and unregisters all favorited tools from this session.",
+        "Removes the saved API key and unregisters account favorites from this session (local favorites stay).",
       inputSchema: {},
     },
     async () => {
@@ -1125,13 +2779,9 @@ function registerAllTools(server: McpServer) {
         // config file may not exist — that's fine
       }
 
-      // 3. Unregister all favorited tools
-      let removedCount = 0;
-      for (const [toolId, registered] of registeredFavTools) {
-        registered.remove();
-        registeredFavTools.delete(toolId);
-        removedCount++;
-      }
+      // 3. Swap account favorites for local ones (if any)
+      const favorites = await refreshFavoriteTools(server).catch(() => null);
+      const removedCount = favorites?.removed.length ?? 0;
 
       process.stderr.write(`[caravo] logout: cleared API key, removed ${removedCount} fav tools\n`);
 
@@ -1158,14 +2808,18 @@ function registerAllTools(server: McpServer) {
     {
       description:
         "List all available tags/categories in the marketplace. Returns tag names, slugs, and tool counts.",
-      inputSchema: {},
+      inputSchema: {
+        refresh: z.boolean().optional().describe("Bypass the local metadata cache and re-fetch from the marketplace"),
+      },
+      outputSchema: tagsOutput,
     },
-    async () => {
+    async ({ refresh }, { signal }) => {
       try {
-        const data = await apiGet("/api/tags");
-        return appendUpdateNotice({
-          content: [{ type: "text" as const, text: safeJsonText(data) }],
-        });
+        const data = await apiGetCached("/api/tags", CATALOG_TTL_MS, { force: refresh, signal });
+        if (data?.error) {
+          return appendUpdateNotice({ content: [{ type: "text" as const, text: `Error: ${data.error}` }], isError: true });
+        }
+        return appendUpdateNotice(structuredResult(safeJsonText(data), { tags: listItems(data, "tags") }));
       } catch (err) {
         return appendUpdateNotice({
           content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
@@ -1181,14 +2835,18 @@ function registerAllTools(server: McpServer) {
     {
       description:
         "List all providers/vendors in the marketplace. Returns provider names, slugs, and tool counts.",
-      inputSchema: {},
+      inputSchema: {
+        refresh: z.boolean().optional().describe("Bypass the local metadata cache and re-fetch from the marketplace"),
+      },
+      outputSchema: providersOutput,
     },
-    async () => {
+    async ({ refresh }, { signal }) => {
       try {
-        const data = await apiGet("/api/providers");
-        return appendUpdateNotice({
-          content: [{ type: "text" as const, text: safeJsonText(data) }],
-        });
+        const data = await apiGetCached("/api/providers", CATALOG_TTL_MS, { force: refresh, signal });
+        if (data?.error) {
+          return appendUpdateNotice({ content: [{ type: "text" as const, text: `Error: ${data.error}` }], isError: true });
+        }
+        return appendUpdateNotice(structuredResult(safeJsonText(data), { providers: listItems(data, "providers") }));
       } catch (err) {
         return appendUpdateNotice({
           content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
@@ -1210,6 +2868,7 @@ function registerAllTools(server: McpServer) {
         page: z.number().optional().describe("Page number (default 1)"),
         per_page: z.number().optional().describe("Results per page (default 20)"),
       },
+      outputSchema: toolRequestsOutput,
     },
     async ({ status = "open", page = 1, per_page = 20 }) => {
       if (!Number.isInteger(page) || page < 1) {
@@ -1227,9 +2886,15 @@ function registerAllTools(server: McpServer) {
         params.set("page", String(page));
         params.set("per_page", String(per_page));
         const data = await apiGet(`/api/tool-requests?${params}`);
-        return appendUpdateNotice({
-          content: [{ type: "text" as const, text: safeJsonText(data) }],
-        });
+        if (data?.error) {
+          return appendUpdateNotice({ content: [{ type: "text" as const, text: `Error: ${data.error}` }], isError: true });
+        }
+        return appendUpdateNotice(
+          structuredResult(safeJsonText(data), {
+            requests: listItems(data, "requests", "tool_requests"),
+            pagination: paginationOf(data, page, per_page),
+          })
+        );
       } catch (err) {
         return appendUpdateNotice({
           content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
@@ -1337,47 +3002,70 @@ function registerAllTools(server: McpServer) {
     "list_favorites",
     {
       description:
-        "List your favorited tools. Favorited tools are registered as direct fav:<id> MCP tools. Requires CARAVO_API_KEY.",
+        "List your favorited tools. Favorited tools are registered as direct fav:<id> MCP tools. " +
+        "Without an API key, favorites are kept locally.",
       inputSchema: {},
+      outputSchema: favoritesOutput,
     },
     async () => {
-      if (!API_KEY) {
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: "Error: Set CARAVO_API_KEY env var to use favorites.",
-            },
-          ],
-          isError: true,
+      const describe = (tools: MarketplaceTool[], source: "account" | "local") => {
+        const data = {
+          source,
+          total: tools.length,
+          favorites: tools.map((t) => ({
+            tool_id: t.id,
+            name: t.name,
+            mcp_tool_name: `fav:${t.id}`,
+            price_per_call: t.pricing.price_per_call,
+          })),
+          hint:
+            "Favorited tools are registered as direct MCP tools named fav:<tool_id>." +
+            (source === "local" ? " These are stored locally; run login to sync them to your account." : ""),
         };
+        return appendUpdateNotice(structuredResult(safeJsonText(data), data));
+      };
+      if (!API_KEY) {
+        return describe(readLocalFavorites().map((f) => f.tool), "local");
       }
       try {
-        const result = await apiGet("/api/favorites");
+        const result = await apiGetCached("/api/favorites", FAVORITES_TTL_MS, { perAccount: true });
         if (result.error) {
           return {
             content: [{ type: "text" as const, text: `Error: ${result.error}` }],
             isError: true,
           };
         }
-        const tools: MarketplaceTool[] = result.data ?? [];
+        return describe(result.data ?? [], "account");
+      } catch (err) {
         return appendUpdateNotice({
-          content: [
-            {
-              type: "text" as const,
-              text: safeJsonText({
-                total: tools.length,
-                favorites: tools.map((t) => ({
-                  tool_id: t.id,
-                  name: t.name,
-                  mcp_tool_name: `fav:${t.id}`,
-                  price_per_call: t.pricing.price_per_call,
-                })),
-                hint: "Favorited tools are registered as direct MCP tools named fav:<tool_id>.",
-              }),
-            },
-          ],
+          content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
+          isError: true,
         });
+      }
+    }
+  );
+
+  server.registerTool(
+    "refresh_favorites",
+    {
+      description:
+        "Re-sync fav:<id> tools with your favorites now — e.g. after changing them on the dashboard or another machine. " +
+        "This also happens automatically in the background.",
+      inputSchema: {},
+      outputSchema: favoritesRefreshOutput,
+    },
+    async () => {
+      try {
+        const result = await refreshFavoriteTools(server);
+        const lines = [
+          `✓ ${result.total} ${result.source} favorite(s) registered as fav:* tools`,
+          ...(result.added.length > 0 ? [`  Added: ${result.added.map((id) => `fav:${id}`).join(", ")}`] : []),
+          ...(result.updated.length > 0
+            ? [`  Updated (changed on the marketplace): ${result.updated.map((id) => `fav:${id}`).join(", ")}`]
+            : []),
+          ...(result.removed.length > 0 ? [`  Removed: ${result.removed.map((id) => `fav:${id}`).join(", ")}`] : []),
+        ];
+        return appendUpdateNotice(structuredResult(lines.join("\n"), result));
       } catch (err) {
         return appendUpdateNotice({
           content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
@@ -1393,24 +3081,43 @@ function registerAllTools(server: McpServer) {
       description:
         "Bookmark a tool you plan to reuse frequently — it appears as a direct fav:<tool_id> MCP tool. " +
         "Only favorite tools you rated 5/5 and expect to use again. " +
-        "Requires CARAVO_API_KEY.",
+        "Saved to your account with an API key, locally without one.",
       inputSchema: {
         tool_id: z
           .string()
           .describe("Tool ID to favorite (e.g., 'black-forest-labs/flux.1-schnell' or 'alice/imagen-4')"),
       },
     },
-    async ({ tool_id }) => {
+    async ({ tool_id }, { signal }) => {
+      const validationError = validateToolId(tool_id);
+      if (validationError) {
+        return { content: [{ type: "text" as const, text: `Error: ${validationError}` }], isError: true };
+      }
+
       if (!API_KEY) {
-        return {
+        const tool = await fetchToolInfo(tool_id.trim(), signal);
+        if (!tool) {
+          return {
+            content: [{ type: "text" as const, text: `Error: Tool "${tool_id}" not found (or the marketplace is unreachable)` }],
+            isError: true,
+          };
+        }
+        addLocalFavorite(tool);
+        registerFavTool(server, tool);
+        return appendUpdateNotice({
           content: [
             {
               type: "text" as const,
-              text: "Error: Set CARAVO_API_KEY env var to use favorites.",
+              text: [
+                `★ Added "${tool.name}" to your local favorites!`,
+                ``,
+                `It is now registered as a direct MCP tool: fav:${tool.id}`,
+                `Call it directly with its input parameters — no need for use_tool.`,
+                `Run login to sync local favorites to your Caravo account.`,
+              ].join("\n"),
             },
           ],
-          isError: true,
-        };
+        });
       }
 
       try {
@@ -1456,22 +3163,34 @@ function registerAllTools(server: McpServer) {
     {
       description:
         "Remove a tool from your favorites. The fav:<tool_id> direct tool will be unregistered. " +
-        "Requires CARAVO_API_KEY.",
+        "Works on account favorites with an API key, local favorites without one.",
       inputSchema: {
         tool_id: z.string().describe("Tool ID to unfavorite"),
       },
     },
     async ({ tool_id }) => {
+      const unregister = () => {
+        const registered = registeredFavTools.get(tool_id);
+        if (registered) {
+          registered.remove();
+          registeredFavTools.delete(tool_id);
+        }
+      };
+
       if (!API_KEY) {
-        return {
+        const removed = removeLocalFavorite(tool_id);
+        unregister();
+        clearFavoriteBaseline(tool_id);
+        return appendUpdateNotice({
           content: [
             {
               type: "text" as const,
-              text: "Error: Set CARAVO_API_KEY env var to use favorites.",
+              text: removed
+                ? `Removed "fav:${tool_id}" from your local favorites and unregistered it.`
+                : `"${tool_id}" was not in your local favorites.`,
             },
           ],
-          isError: true,
-        };
+        });
       }
 
       try {
@@ -1485,11 +3204,8 @@ function registerAllTools(server: McpServer) {
         }
 
         // Dynamically unregister the fav tool from this session
-        const registered = registeredFavTools.get(tool_id);
-        if (registered) {
-          registered.remove();
-          registeredFavTools.delete(tool_id);
-        }
+        unregister();
+        clearFavoriteBaseline(tool_id);
 
         return appendUpdateNotice({
           content: [
@@ -1509,6 +3225,148 @@ function registerAllTools(server: McpServer) {
       }
     }
   );
+
+  // ── Recipes ──────────────────────────────────────────────────────────────────
+
+  server.registerTool(
+    "create_recipe",
+    {
+      description:
+        "Save a recipe: a named preset for a tool, registered as a direct recipe:<name> MCP tool. " +
+        "Defaults fill fields the caller leaves out; locked values are always sent and hidden from the recipe's schema. " +
+        "Recipes are stored locally in ~/.caravo/recipes.json.",
+      inputSchema: {
+        name: z.string().describe("Recipe name (letters, digits, - and _; e.g. 'square-thumbnail')"),
+        tool_id: z.string().describe("Tool ID the recipe calls (e.g., 'black-forest-labs/flux.1-schnell')"),
+        description: z.string().optional().describe("What the recipe is for (defaults to the tool's description)"),
+        defaults: z.record(z.string(), z.unknown()).optional().describe("Input values used unless the caller overrides them"),
+        locked: z.record(z.string(), z.unknown()).optional().describe("Input values always sent; callers cannot change them"),
+        overwrite: z.boolean().optional().describe("Replace an existing recipe of the same name"),
+      },
+    },
+    async ({ name, tool_id, description, defaults = {}, locked = {}, overwrite }, { signal }) => {
+      if (!RECIPE_NAME_RE.test(name)) {
+        return {
+          content: [{ type: "text" as const, text: `Error: Invalid recipe name "${name}" — use up to 64 letters, digits, - and _` }],
+          isError: true,
+        };
+      }
+      if (getRecipe(name) && !overwrite) {
+        return {
+          content: [{ type: "text" as const, text: `Error: Recipe "${name}" already exists — pass overwrite: true to replace it` }],
+          isError: true,
+        };
+      }
+      const validationError = validateToolId(tool_id);
+      if (validationError) {
+        return { content: [{ type: "text" as const, text: `Error: ${validationError}` }], isError: true };
+      }
+      const tool = await fetchToolInfo(tool_id.trim(), signal);
+      if (!tool) {
+        return {
+          content: [{ type: "text" as const, text: `Error: Tool "${tool_id}" not found (or the marketplace is unreachable)` }],
+          isError: true,
+        };
+      }
+      const problems = validateRecipe({ defaults, locked, tool });
+      if (problems.length > 0) {
+        return {
+          content: [{ type: "text" as const, text: `Error: Invalid recipe values for ${tool.id}:\n${problems.map((p) => `  - ${p}`).join("\n")}` }],
+          isError: true,
+        };
+      }
+
+      const recipe: Recipe = {
+        name,
+        tool_id: tool.id,
+        ...(description ? { description } : {}),
+        defaults,
+        locked,
+        created_at: new Date().toISOString(),
+        tool,
+      };
+      try {
+        saveRecipe(recipe);
+        registerRecipeTool(server, recipe);
+      } catch (err) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
+          isError: true,
+        };
+      }
+      const open = tool.input_schema.filter((f) => !(f.name in locked)).map((f) => f.name);
+      const warnings = unknownInputFields(tool, { ...defaults, ...locked });
+      return appendUpdateNotice(appendInputWarnings({
+        content: [
+          {
+            type: "text" as const,
+            text: [
+              `✓ Saved recipe "${name}" for ${tool.name}`,
+              ``,
+              `It is now registered as a direct MCP tool: recipe:${name}`,
+              `Inputs: ${open.length > 0 ? open.join(", ") : "(none — everything is locked)"}`,
+            ].join("\n"),
+          },
+        ],
+      }, warnings));
+    }
+  );
+
+  server.registerTool(
+    "list_recipes",
+    {
+      description: "List your saved recipes. Each is registered as a direct recipe:<name> MCP tool.",
+      inputSchema: {},
+      outputSchema: recipesOutput,
+    },
+    async () => {
+      const recipes = readRecipes();
+      const data = {
+        total: recipes.length,
+        recipes: recipes.map((r) => ({
+          name: r.name,
+          mcp_tool_name: `recipe:${r.name}`,
+          tool_id: r.tool_id,
+          ...(r.description ? { description: r.description } : {}),
+          defaults: r.defaults,
+          locked: r.locked,
+          created_at: r.created_at,
+        })),
+      };
+      return appendUpdateNotice(structuredResult(safeJsonText(data), data));
+    }
+  );
+
+  server.registerTool(
+    "delete_recipe",
+    {
+      description: "Delete a saved recipe. Its recipe:<name> direct tool will be unregistered.",
+      inputSchema: {
+        name: z.string().describe("Recipe name to delete"),
+      },
+    },
+    async ({ name }) => {
+      try {
+        const existed = deleteRecipe(name);
+        unregisterRecipeTool(name);
+        return appendUpdateNotice({
+          content: [
+            {
+              type: "text" as const,
+              text: existed
+                ? `✓ Deleted recipe "${name}". The recipe:${name} tool has been unregistered.`
+                : `No recipe named "${name}".`,
+            },
+          ],
+        });
+      } catch (err) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
+          isError: true,
+        };
+      }
+    }
+  );
 }
 
 // ─── Main ─────────────────────────────────────────────────────────────────────
@@ -1540,6 +3398,7 @@ const server = new McpServer(
 
 registerAllTools(server);
 await loadFavoriteTools(server); // only registers favorited tools, not all tools
+loadRecipeTools(server);
 
 const transport = new StdioServerTransport();
 await server.connect(transport);
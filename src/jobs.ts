@@ -0,0 +1,121 @@
+/**
+ * Asynchronous execution jobs for long-running tools (video, 3D, avatar generation).
+ *
+ * `use_tool` with `async: true` asks the server to respond with a job handle (Prefer: respond-async)
+ * instead of blocking on the execution. Jobs are then polled at /api/jobs/<job_id>.
+ * Submitted jobs are remembered in ~/.caravo/jobs.json so handles survive a restart.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+
+const CONFIG_DIR = join(homedir(), ".caravo");
+const JOBS_FILE = join(CONFIG_DIR, "jobs.json");
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const POLL_MIN_MS = 2_000;
+const POLL_MAX_MS = 10_000;
+
+export type JobState = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+const TERMINAL_STATES = new Set<JobState>(["succeeded", "failed", "cancelled"]);
+
+export interface JobStatus {
+  job_id: string;
+  status: JobState;
+  /** 0–1 when the server reports it (null otherwise) */
+  progress?: number | null;
+  message?: string | null;
+  /** Execution result (same shape as a synchronous execute response) once finished */
+  result?: {
+    success?: boolean;
+    execution_id?: string;
+    cost?: number;
+    payment_method?: string;
+    output?: Record<string, unknown>;
+    error?: string;
+  };
+  error?: string;
+}
+
+export interface JobRecord {
+  job_id: string;
+  tool_id: string;
+  submitted_at: string;
+  idempotency_key?: string;
+  last_status?: JobState;
+}
+
+export function isTerminal(status: JobState | undefined): boolean {
+  return status !== undefined && TERMINAL_STATES.has(status);
+}
+
+function readJobs(): JobRecord[] {
+  try {
+    if (existsSync(JOBS_FILE)) {
+      const data = JSON.parse(readFileSync(JOBS_FILE, "utf-8"));
+      if (Array.isArray(data)) return data;
+    }
+  } catch { /* ignore */ }
+  return [];
+}
+
+function writeJobs(jobs: JobRecord[]): void {
+  const cutoff = Date.now() - RETENTION_MS;
+  try {
+    mkdirSync(CONFIG_DIR, { recursive: true });
+    writeFileSync(JOBS_FILE, JSON.stringify(jobs.filter((j) => Date.parse(j.submitted_at) >= cutoff), null, 2), {
+      mode: 0o600,
+    });
+  } catch { /* ignore */ }
+}
+
+export function recordJob(job: JobRecord): void {
+  writeJobs([...readJobs().filter((j) => j.job_id !== job.job_id), job]);
+}
+
+export function getJobRecord(jobId: string): JobRecord | undefined {
+  return readJobs().find((j) => j.job_id === jobId);
+}
+
+export function updateJobStatus(jobId: string, status: JobState): void {
+  const jobs = readJobs();
+  const job = jobs.find((j) => j.job_id === jobId);
+  if (!job || job.last_status === status) return;
+  job.last_status = status;
+  writeJobs(jobs);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Poll `fetchStatus` until the job reaches a terminal state, `timeoutMs` passes or `signal`
+ * aborts. Returns the last status seen; `onPoll` is called after every poll (for progress).
+ */
+export async function waitForJob(
+  fetchStatus: () => Promise<JobStatus>,
+  opts: { timeoutMs: number; signal?: AbortSignal; onPoll?: (status: JobStatus, elapsedMs: number) => void }
+): Promise<{ status: JobStatus; timedOut: boolean }> {
+  const started = Date.now();
+  let interval = POLL_MIN_MS;
+  for (;;) {
+    const status = await fetchStatus();
+    opts.onPoll?.(status, Date.now() - started);
+    if (isTerminal(status.status)) return { status, timedOut: false };
+    const remaining = opts.timeoutMs - (Date.now() - started);
+    if (remaining <= 0 || opts.signal?.aborted) return { status, timedOut: true };
+    await sleep(Math.min(interval, remaining), opts.signal);
+    if (opts.signal?.aborted) return { status, timedOut: true };
+    interval = Math.min(interval * 1.5, POLL_MAX_MS);
+  }
+}
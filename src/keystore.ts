@@ -0,0 +1,110 @@
+/**
+ * Ethereum V3 keystore (Web3 Secret Storage) encryption for wallet private keys.
+ *
+ * Files written here can be imported by geth, MetaMask, Foundry (`cast wallet import`), etc.
+ * Decryption accepts both scrypt and pbkdf2 keystores. The KDF runs asynchronously (libuv
+ * thread pool): standard scrypt parameters take around a second and 256 MB, which must not
+ * stall the MCP event loop.
+ */
+
+import { randomBytes, randomUUID, scrypt, pbkdf2, createCipheriv, createDecipheriv, type ScryptOptions } from "crypto";
+import { promisify } from "util";
+import { keccak256 } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+// geth "standard" scrypt parameters
+const SCRYPT_N = 262144;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const DKLEN = 32;
+
+export interface KeystoreV3 {
+  version: 3;
+  id: string;
+  address: string;
+  crypto: {
+    ciphertext: string;
+    cipherparams: { iv: string };
+    cipher: string;
+    kdf: string;
+    kdfparams: Record<string, string | number>;
+    mac: string;
+  };
+}
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: ScryptOptions
+) => Promise<Buffer>;
+const pbkdf2Async = promisify(pbkdf2);
+
+function scryptMaxmem(n: number, r: number): number {
+  // Node's default maxmem (32MB) is too small for standard keystore params
+  return 128 * n * r * 2;
+}
+
+function computeMac(derivedKey: Buffer, ciphertext: Buffer): string {
+  const macBody = Buffer.concat([derivedKey.subarray(16, 32), ciphertext]);
+  return keccak256(new Uint8Array(macBody)).slice(2);
+}
+
+export async function encryptKeystore(privateKey: `0x${string}`, passphrase: string): Promise<KeystoreV3> {
+  const salt = randomBytes(32);
+  const iv = randomBytes(16);
+  const derivedKey = await scryptAsync(passphrase, salt, DKLEN, {
+    N: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+    maxmem: scryptMaxmem(SCRYPT_N, SCRYPT_R),
+  });
+
+  const cipher = createCipheriv("aes-128-ctr", derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(privateKey.slice(2), "hex")), cipher.final()]);
+
+  return {
+    version: 3,
+    id: randomUUID(),
+    address: privateKeyToAccount(privateKey).address.slice(2).toLowerCase(),
+    crypto: {
+      ciphertext: ciphertext.toString("hex"),
+      cipherparams: { iv: iv.toString("hex") },
+      cipher: "aes-128-ctr",
+      kdf: "scrypt",
+      kdfparams: { dklen: DKLEN, salt: salt.toString("hex"), n: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P },
+      mac: computeMac(derivedKey, ciphertext),
+    },
+  };
+}
+
+/** Decrypt a V3 keystore. Throws on a wrong passphrase or unsupported format. */
+export async function decryptKeystore(keystore: KeystoreV3, passphrase: string): Promise<`0x${string}`> {
+  if (keystore.version !== 3) throw new Error(`Unsupported keystore version: ${keystore.version}`);
+  const { crypto: c } = keystore;
+  if (c.cipher !== "aes-128-ctr") throw new Error(`Unsupported keystore cipher: ${c.cipher}`);
+
+  const params = c.kdfparams;
+  const salt = Buffer.from(String(params.salt), "hex");
+  const dklen = Number(params.dklen);
+  let derivedKey: Buffer;
+  if (c.kdf === "scrypt") {
+    const n = Number(params.n);
+    const r = Number(params.r);
+    derivedKey = await scryptAsync(passphrase, salt, dklen, { N: n, r, p: Number(params.p), maxmem: scryptMaxmem(n, r) });
+  } else if (c.kdf === "pbkdf2") {
+    if (params.prf !== "hmac-sha256") throw new Error(`Unsupported pbkdf2 prf: ${params.prf}`);
+    derivedKey = await pbkdf2Async(passphrase, salt, Number(params.c), dklen, "sha256");
+  } else {
+    throw new Error(`Unsupported keystore kdf: ${c.kdf}`);
+  }
+
+  const ciphertext = Buffer.from(c.ciphertext, "hex");
+  if (computeMac(derivedKey, ciphertext) !== c.mac.toLowerCase()) {
+    throw new Error("Keystore MAC mismatch — wrong passphrase?");
+  }
+
+  const decipher = createDecipheriv("aes-128-ctr", derivedKey.subarray(0, 16), Buffer.from(c.cipherparams.iv, "hex"));
+  const key = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  return ("0x" + key.toString("hex")) as `0x${string}`;
+}
@@ -0,0 +1,120 @@
+/**
+ * Local execution ledger: one JSON line per tool execution in ~/.caravo/ledger.jsonl.
+ *
+ * Lets users reconcile agent spend offline. Writes are append-only and non-fatal.
+ */
+
+import { readFileSync, appendFileSync, mkdirSync, existsSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+
+const CONFIG_DIR = join(homedir(), ".caravo");
+const LEDGER_FILE = join(CONFIG_DIR, "ledger.jsonl");
+
+/** `submitted`: an async job was accepted; its result is fetched later with get_job_status */
+export type ExecutionOutcome = "success" | "error" | "payment_required" | "submitted";
+
+export interface LedgerEntry {
+  tool_id: string;
+  provider: string;
+  execution_id: string | null;
+  cost: number;
+  payment_method: string | null;
+  /** EIP-3009 nonce of the signed x402 authorization, if a payment was signed */
+  x402_nonce: string | null;
+  /** Wallet profile that would sign x402 payments for this call */
+  wallet?: string;
+  /** Idempotency-Key sent with the execution */
+  idempotency_key?: string;
+  started_at: string;
+  finished_at: string;
+  outcome: ExecutionOutcome;
+  error?: string;
+}
+
+export interface LedgerFilter {
+  /** Inclusive lower bound (ISO date or datetime) on started_at */
+  from?: string;
+  /** Inclusive upper bound (ISO date or datetime) on started_at; a bare date covers the whole day */
+  to?: string;
+  tool_id?: string;
+  provider?: string;
+  outcome?: ExecutionOutcome;
+}
+
+export function appendLedgerEntry(entry: LedgerEntry): void {
+  try {
+    mkdirSync(CONFIG_DIR, { recursive: true });
+    appendFileSync(LEDGER_FILE, JSON.stringify(entry) + "\n", { mode: 0o600 });
+  } catch (e) {
+    process.stderr.write(`[caravo] warning: could not write ledger: ${e}\n`);
+  }
+}
+
+function readLedger(): LedgerEntry[] {
+  try {
+    if (!existsSync(LEDGER_FILE)) return [];
+    const entries: LedgerEntry[] = [];
+    for (const line of readFileSync(LEDGER_FILE, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch { /* skip corrupt line */ }
+    }
+    return entries;
+  } catch {
+    return [];
+  }
+}
+
+function parseBound(value: string, endOfDay: boolean): number {
+  // Bare YYYY-MM-DD upper bounds include the whole day
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return Date.parse(`${value}T23:59:59.999Z`);
+  }
+  return Date.parse(value);
+}
+
+/** Throws on unparseable date bounds so the caller can report them. */
+export function queryLedger(filter: LedgerFilter = {}): LedgerEntry[] {
+  const from = filter.from ? parseBound(filter.from, false) : -Infinity;
+  const to = filter.to ? parseBound(filter.to, true) : Infinity;
+  if (Number.isNaN(from)) throw new Error(`Invalid 'from' date: ${filter.from}`);
+  if (Number.isNaN(to)) throw new Error(`Invalid 'to' date: ${filter.to}`);
+
+  return readLedger().filter((e) => {
+    const at = Date.parse(e.started_at);
+    if (at < from || at > to) return false;
+    if (filter.tool_id && e.tool_id !== filter.tool_id) return false;
+    if (filter.provider && e.provider !== filter.provider) return false;
+    if (filter.outcome && e.outcome !== filter.outcome) return false;
+    return true;
+  });
+}
+
+function round(usd: number): number {
+  return Math.round(usd * 1e6) / 1e6;
+}
+
+function groupTotals(entries: LedgerEntry[], key: (e: LedgerEntry) => string) {
+  const groups: Record<string, { calls: number; cost: number }> = {};
+  for (const e of entries) {
+    const k = key(e);
+    groups[k] ??= { calls: 0, cost: 0 };
+    groups[k].calls++;
+    groups[k].cost = round(groups[k].cost + e.cost);
+  }
+  return groups;
+}
+
+export function summarizeLedger(entries: LedgerEntry[]) {
+  return {
+    total_calls: entries.length,
+    successful_calls: entries.filter((e) => e.outcome === "success").length,
+    total_cost: round(entries.reduce((sum, e) => sum + e.cost, 0)),
+    by_tool: groupTotals(entries, (e) => e.tool_id),
+    by_provider: groupTotals(entries, (e) => e.provider),
+    by_payment_method: groupTotals(entries, (e) => e.payment_method ?? "none"),
+    by_day: groupTotals(entries, (e) => e.started_at.slice(0, 10)),
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Native MCP content blocks for tool outputs, so clients can show images and play audio inline.
+ *
+ * Modes (per call via `inline_media`, default from CARAVO_INLINE_MEDIA / inline_media in config):
+ *   link:   every asset is a `resource_link` block (default)
+ *   inline: images and audio are fetched and embedded as base64 `image` / `audio` blocks;
+ *           video, other files and anything over the size limit become `resource_link` blocks
+ *   none:   text only
+ *
+ * Size limits (bytes): CARAVO_INLINE_MAX_BYTES / inline_max_bytes per asset (default 2 MB);
+ * at most 8 MB is embedded per result.
+ */
+
+import { httpFetch } from "./http.js";
+import { collectOutputAssets, mimeFromUrl, urlPathname, type OutputAsset } from "./downloads.js";
+
+export type InlineMediaMode = "inline" | "link" | "none";
+
+export const INLINE_MEDIA_MODES = ["inline", "link", "none"] as const;
+
+export interface MediaConfig {
+  inline_media?: InlineMediaMode;
+  inline_max_bytes?: number;
+}
+
+export type MediaContent =
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "audio"; data: string; mimeType: string }
+  | { type: "resource_link"; uri: string; name: string; mimeType?: string; description?: string };
+
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 8 * 1024 * 1024;
+
+let defaultMode: InlineMediaMode = "link";
+let maxBytes = DEFAULT_MAX_BYTES;
+
+function isMode(value: unknown): value is InlineMediaMode {
+  return INLINE_MEDIA_MODES.includes(value as InlineMediaMode);
+}
+
+export function configureMedia(config: MediaConfig): void {
+  const mode = process.env.CARAVO_INLINE_MEDIA || config.inline_media;
+  defaultMode = isMode(mode) ? mode : "link";
+  const limit = Number(process.env.CARAVO_INLINE_MAX_BYTES || config.inline_max_bytes);
+  maxBytes = Number.isFinite(limit) && limit > 0 ? limit : DEFAULT_MAX_BYTES;
+}
+
+function linkBlock(asset: OutputAsset, index: number, description?: string): MediaContent {
+  const name = urlPathname(asset.url)?.split("/").pop() || `${asset.kind}-${index + 1}`;
+  const mimeType = mimeFromUrl(asset.url);
+  return {
+    type: "resource_link",
+    uri: asset.url,
+    name,
+    ...(mimeType ? { mimeType } : {}),
+    ...(description ? { description } : {}),
+  };
+}
+
+/** Fetch an asset if it fits in `limit` bytes and is of its kind; otherwise the reason it wasn't embedded. */
+async function fetchInline(
+  asset: OutputAsset,
+  limit: number,
+  signal?: AbortSignal
+): Promise<{ data: Buffer; mimeType: string } | string> {
+  const resp = await httpFetch(asset.url, {}, { route: "download", signal });
+  if (!resp.ok || !resp.body) throw new Error(`HTTP ${resp.status}`);
+  const declared = Number(resp.headers.get("content-length"));
+  if (declared > limit) {
+    await resp.body.cancel().catch(() => {});
+    return "Too large to embed";
+  }
+  const mimeType = resp.headers.get("content-type")?.split(";")[0].trim().toLowerCase() || mimeFromUrl(asset.url);
+  if (!mimeType?.startsWith(`${asset.kind}/`)) {
+    await resp.body.cancel().catch(() => {});
+    return `Not embeddable as ${asset.kind} (${mimeType ?? "unknown type"})`;
+  }
+
+  // Content-Length can be missing or wrong — enforce the limit while reading
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of resp.body) {
+    total += chunk.length;
+    if (total > limit) return "Too large to embed";
+    chunks.push(Buffer.from(chunk));
+  }
+  return { data: Buffer.concat(chunks), mimeType };
+}
+
+/**
+ * Content blocks for the assets in an execution output. Never throws: assets that can't be
+ * embedded fall back to resource links.
+ */
+export async function buildMediaContent(
+  output: Record<string, unknown> | undefined,
+  opts: { mode?: InlineMediaMode; signal?: AbortSignal } = {}
+): Promise<MediaContent[]> {
+  const mode = opts.mode ?? defaultMode;
+  if (mode === "none") return [];
+  const blocks: MediaContent[] = [];
+  let budget = MAX_TOTAL_BYTES;
+  for (const [i, asset] of collectOutputAssets(output).entries()) {
+    if (mode === "link" || (asset.kind !== "image" && asset.kind !== "audio")) {
+      blocks.push(linkBlock(asset, i));
+      continue;
+    }
+    try {
+      const fetched = await fetchInline(asset, Math.min(maxBytes, budget), opts.signal);
+      if (typeof fetched === "string") {
+        blocks.push(linkBlock(asset, i, fetched));
+        continue;
+      }
+      budget -= fetched.data.length;
+      blocks.push({ type: asset.kind, data: fetched.data.toString("base64"), mimeType: fetched.mimeType });
+    } catch (err) {
+      blocks.push(linkBlock(asset, i, `Could not embed: ${err instanceof Error ? err.message : String(err)}`));
+    }
+  }
+  return blocks;
+}
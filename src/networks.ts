@@ -0,0 +1,141 @@
+/**
+ * EVM network registry for x402 payments, keyed by CAIP-2 id (e.g. "eip155:8453").
+ *
+ * Each entry knows its viem chain, an RPC URL and the USDC (EIP-3009) contract used for payments.
+ * RPC URLs can be overridden, and extra networks added, from config:
+ *   ~/.caravo/config.json → {
+ *     "rpc_urls": { "eip155:84532": "https://..." },
+ *     "networks": { "eip155:1234": { "name": "...", "rpc_url": "...", "usdc": { "address": "0x...", "name": "USD Coin", "version": "2" } } }
+ *   }
+ * or per network with CARAVO_RPC_URL_<chainId> (e.g. CARAVO_RPC_URL_84532).
+ */
+
+import { createPublicClient, defineChain, http, type Chain, type PublicClient } from "viem";
+import {
+  base,
+  baseSepolia,
+  mainnet,
+  sepolia,
+  optimism,
+  arbitrum,
+  polygon,
+  avalanche,
+  avalancheFuji,
+} from "viem/chains";
+
+export interface TokenInfo {
+  address: `0x${string}`;
+  /** EIP-712 domain name */
+  name: string;
+  /** EIP-712 domain version */
+  version: string;
+  decimals: number;
+}
+
+export interface NetworkInfo {
+  caip2: string;
+  name: string;
+  chain: Chain;
+  rpcUrl: string;
+  usdc: TokenInfo;
+  testnet: boolean;
+}
+
+export interface NetworkConfig {
+  rpc_urls?: Record<string, string>;
+  networks?: Record<
+    string,
+    { name?: string; rpc_url: string; testnet?: boolean; usdc: { address: string; name?: string; version?: string; decimals?: number } }
+  >;
+}
+
+export const DEFAULT_NETWORK = "eip155:8453";
+
+function usdc(address: `0x${string}`, name = "USD Coin"): TokenInfo {
+  return { address, name, version: "2", decimals: 6 };
+}
+
+const BUILTIN: Array<{ chain: Chain; usdc: TokenInfo }> = [
+  { chain: base, usdc: usdc("0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913") },
+  { chain: baseSepolia, usdc: usdc("0x036CbD53842c5426634e7929541eC2318f3dCF7e", "USDC") },
+  { chain: mainnet, usdc: usdc("0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48") },
+  { chain: sepolia, usdc: usdc("0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238", "USDC") },
+  { chain: optimism, usdc: usdc("0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85") },
+  { chain: arbitrum, usdc: usdc("0xaf88d065e77c8cC2239327C5EDb3A432268e5831") },
+  { chain: polygon, usdc: usdc("0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359") },
+  { chain: avalanche, usdc: usdc("0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E") },
+  { chain: avalancheFuji, usdc: usdc("0x5425890298aed601595a70AB815c96711a31Bc65", "USD Coin") },
+];
+
+const registry = new Map<string, NetworkInfo>();
+const clients = new Map<string, PublicClient>();
+
+function rpcOverride(chainId: number, config: NetworkConfig): string | undefined {
+  return process.env[`CARAVO_RPC_URL_${chainId}`] || config.rpc_urls?.[`eip155:${chainId}`];
+}
+
+/** (Re)build the registry from built-ins plus config overrides. */
+export function configureNetworks(config: NetworkConfig = {}): void {
+  registry.clear();
+  clients.clear();
+  for (const { chain, usdc } of BUILTIN) {
+    const caip2 = `eip155:${chain.id}`;
+    registry.set(caip2, {
+      caip2,
+      name: chain.name,
+      chain,
+      rpcUrl: rpcOverride(chain.id, config) ?? chain.rpcUrls.default.http[0],
+      usdc,
+      testnet: chain.testnet ?? false,
+    });
+  }
+  for (const [caip2, custom] of Object.entries(config.networks ?? {})) {
+    const chainId = Number(caip2.split(":")[1]);
+    if (!caip2.startsWith("eip155:") || !Number.isInteger(chainId) || !custom.rpc_url || !custom.usdc?.address) {
+      process.stderr.write(`[caravo] warning: ignoring invalid network config for ${caip2}\n`);
+      continue;
+    }
+    const name = custom.name ?? caip2;
+    const rpcUrl = rpcOverride(chainId, config) ?? custom.rpc_url;
+    registry.set(caip2, {
+      caip2,
+      name,
+      chain: defineChain({
+        id: chainId,
+        name,
+        nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+        rpcUrls: { default: { http: [rpcUrl] } },
+      }),
+      rpcUrl,
+      usdc: {
+        address: custom.usdc.address as `0x${string}`,
+        name: custom.usdc.name ?? "USD Coin",
+        version: custom.usdc.version ?? "2",
+        decimals: custom.usdc.decimals ?? 6,
+      },
+      testnet: custom.testnet ?? false,
+    });
+  }
+}
+
+configureNetworks();
+
+export function getNetwork(caip2: string): NetworkInfo | undefined {
+  return registry.get(caip2);
+}
+
+export function listNetworks(): NetworkInfo[] {
+  return [...registry.values()];
+}
+
+/** Shared viem public client for a registered network. */
+export function getPublicClient(caip2: string): PublicClient | undefined {
+  const network = registry.get(caip2);
+  if (!network) return undefined;
+  let client = clients.get(caip2);
+  if (!client) {
+    client = createPublicClient({ chain: network.chain, transport: http(network.rpcUrl) });
+    clients.set(caip2, client);
+  }
+  return client;
+}
@@ -0,0 +1,225 @@
+/**
+ * Output schemas (MCP `outputSchema`) for Caravo's tools, and helpers that shape API responses
+ * into the matching `structuredContent`.
+ *
+ * Marketplace objects (tools, wallet info) are passthrough: they carry more fields than are
+ * declared here, and those are kept rather than stripped. Optional fields that come from the
+ * API are nullish, since the marketplace sends null for missing values. Only successful results carry
+ * structured content; errors stay text with isError. The text content is unchanged, for
+ * clients that don't read structuredContent.
+ */
+
+import { z } from "zod";
+
+const record = z.record(z.string(), z.unknown());
+
+const pagination = z.object({
+  page: z.number(),
+  per_page: z.number(),
+  total: z.number().optional(),
+  total_pages: z.number().optional(),
+});
+
+const toolSummary = z
+  .object({
+    id: z.string().nullish(),
+    name: z.string().nullish(),
+    description: z.string().nullish(),
+    provider: z.unknown().optional(),
+    pricing: z.object({ price_per_call: z.number().nullish() }).passthrough().nullish(),
+  })
+  .passthrough();
+
+const savedOutput = z.object({
+  url: z.string(),
+  path: z.string(),
+  content_type: z.string().nullable(),
+  bytes: z.number(),
+  sha256: z.string(),
+});
+
+export const searchToolsOutput = z.object({
+  tools: z.array(toolSummary),
+  pagination,
+});
+
+export const toolInfoOutput = toolSummary.extend({
+  id: z.string(),
+  input_schema: z.array(record).nullish(),
+  tags: z.array(z.unknown()).nullish(),
+});
+
+export const tagsOutput = z.object({ tags: z.array(record) });
+
+export const providersOutput = z.object({ providers: z.array(record) });
+
+export const toolRequestsOutput = z.object({ requests: z.array(record), pagination });
+
+/** use_tool / fav:* — a finished execution, a submitted async job, or a dry-run preview. */
+export const executionOutput = z.object({
+  status: z.enum(["success", "submitted", "preview"]),
+  tool_id: z.string(),
+  execution_id: z.string().nullable().optional(),
+  cost: z.number().optional(),
+  payment_method: z.string().nullable().optional(),
+  /** The tool's own output object, as returned by the marketplace */
+  output: z.unknown().optional(),
+  saved_outputs: z.array(savedOutput).optional(),
+  job_id: z.string().optional(),
+  job_status: z.string().optional(),
+  /** Dry run: price of the cheapest payable offer, e.g. "$0.010000", or "free" */
+  price: z.string().optional(),
+});
+
+/** run_pipeline — every step's execution (or price, for a dry run) and the last step's output. */
+export const pipelineOutput = z.object({
+  status: z.enum(["success", "preview"]),
+  steps: z.array(
+    z.object({
+      id: z.string(),
+      tool_id: z.string(),
+      price_per_call: z.number().optional(),
+      execution_id: z.string().nullable().optional(),
+      cost: z.number().optional(),
+      payment_method: z.string().nullable().optional(),
+      output: z.unknown().optional(),
+    })
+  ),
+  /** Amount spent, or for a dry run the sum of the steps' prices */
+  total_cost: z.number(),
+  max_cost: z.number(),
+  output: z.unknown().optional(),
+  saved_outputs: z.array(savedOutput).optional(),
+});
+
+export const executionStatusOutput = z.object({
+  idempotency_key: z.string(),
+  /** This machine's record of the call (pending or completed), if any */
+  local: record.nullable(),
+  server: z.unknown().optional(),
+  server_error: z.string().optional(),
+  hint: z.string().optional(),
+});
+
+export const jobStatusOutput = z.object({
+  job_id: z.string(),
+  tool_id: z.string().optional(),
+  status: z.string(),
+  progress: z.number().nullish(),
+  message: z.string().nullish(),
+  timed_out: z.boolean().optional(),
+  result: record.optional(),
+});
+
+export const cancelJobOutput = z.object({ job_id: z.string(), status: z.string() });
+
+export const walletInfoOutput = z.object({
+  wallet: z.string().optional(),
+  active_wallet: z.string(),
+  address: z.string(),
+  network: z.string(),
+  usdc_balance: z.string(),
+  native_balance: z.string().optional(),
+  pending_authorizations: z.string().optional(),
+  available_usdc: z.string().optional(),
+  balance_error: z.string().optional(),
+}).passthrough();
+
+export const walletsOutput = z.object({
+  active_wallet: z.string(),
+  wallets: z.array(z.object({ name: z.string(), address: z.string(), active: z.boolean() }).passthrough()),
+});
+
+export const exportWalletOutput = z.object({
+  wallet: z.string(),
+  address: z.string(),
+  keystore: z.unknown().optional(),
+});
+
+export const favoritesOutput = z.object({
+  /** account: synced favorites (API key); local: ~/.caravo/favorites.json */
+  source: z.enum(["account", "local"]),
+  total: z.number(),
+  favorites: z.array(
+    z.object({
+      tool_id: z.string(),
+      name: z.string(),
+      mcp_tool_name: z.string(),
+      price_per_call: z.number(),
+    })
+  ),
+  hint: z.string(),
+});
+
+export const favoritesRefreshOutput = z.object({
+  source: z.enum(["account", "local"]),
+  added: z.array(z.string()),
+  /** Re-registered because their schema, price or description changed */
+  updated: z.array(z.string()),
+  removed: z.array(z.string()),
+  total: z.number(),
+});
+
+export const recipesOutput = z.object({
+  total: z.number(),
+  recipes: z.array(
+    z.object({
+      name: z.string(),
+      mcp_tool_name: z.string(),
+      tool_id: z.string(),
+      description: z.string().optional(),
+      defaults: record,
+      locked: record,
+      created_at: z.string(),
+    })
+  ),
+});
+
+const groupTotals = z.record(z.string(), z.object({ calls: z.number(), cost: z.number() }));
+
+export const spendingSummaryOutput = z.object({
+  total_calls: z.number(),
+  successful_calls: z.number(),
+  total_cost: z.number(),
+  by_tool: groupTotals,
+  by_provider: groupTotals,
+  by_payment_method: groupTotals,
+  by_day: groupTotals,
+});
+
+export const spendingHistoryOutput = z.object({
+  total_matched: z.number(),
+  summary: spendingSummaryOutput,
+  entries: z.array(record),
+});
+
+export const savedOutputsOutput = z.object({
+  execution_id: z.string(),
+  saved: z.array(savedOutput),
+  failed: z.array(z.object({ url: z.string(), error: z.string() })),
+});
+
+/** Items of a list response, whether the API returns a bare array or wraps it. */
+export function listItems(data: unknown, ...keys: string[]): Record<string, unknown>[] {
+  if (Array.isArray(data)) return data;
+  const obj = (data ?? {}) as Record<string, unknown>;
+  for (const key of [...keys, "data"]) {
+    if (Array.isArray(obj[key])) return obj[key] as Record<string, unknown>[];
+  }
+  return [];
+}
+
+/** Pagination of a list response, falling back to the requested page. */
+export function paginationOf(data: unknown, page: number, perPage: number): z.infer<typeof pagination> {
+  const obj = (data ?? {}) as Record<string, unknown>;
+  const nested = (obj.pagination ?? {}) as Record<string, unknown>;
+  const num = (v: unknown) => (typeof v === "number" ? v : undefined);
+  const total = num(nested.total) ?? num(obj.total);
+  const totalPages = num(nested.total_pages) ?? num(obj.total_pages);
+  return {
+    page: num(nested.page) ?? num(obj.page) ?? page,
+    per_page: num(nested.per_page) ?? num(obj.per_page) ?? perPage,
+    ...(total !== undefined ? { total } : {}),
+    ...(totalPages !== undefined ? { total_pages: totalPages } : {}),
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Payment policy: verifies x402 payment requirements before anything is signed.
+ *
+ * Checks, all of which refuse to sign on mismatch:
+ *   - asset:   must be the known USDC contract for the offered network (network registry)
+ *   - payTo:   must be in the payee allowlist if one is configured; otherwise the first payee paid
+ *              per network is pinned in ~/.caravo/payees.json and later payees must match it
+ *              (pinned only once a payment to it settles — see recordSettledPayee)
+ *   - amount:  must not exceed the tool's advertised price_per_call (plus optional tolerance);
+ *              a free tool is never paid for; if the price can't be fetched, nothing is signed
+ *              unless allow_unverified_price is set
+ *   - timeout: maxTimeoutSeconds must be positive; validBefore is capped at max_payment_validity
+ *
+ * Config, env taking priority:
+ *   CARAVO_PAYEE_ALLOWLIST (comma-separated)   / payee_allowlist: ["0x..."]
+ *   CARAVO_PRICE_TOLERANCE (fraction, e.g 0.1)  / price_tolerance: 0.1
+ *   CARAVO_MAX_PAYMENT_VALIDITY (seconds)       / max_payment_validity: 300
+ *   CARAVO_ALLOW_UNVERIFIED_PRICE (1 / true)    / allow_unverified_price: true
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import { getNetwork } from "./networks.js";
+import { requiredAmount, type PaymentRequirements } from "./x402.js";
+
+const CONFIG_DIR = join(homedir(), ".caravo");
+const PAYEES_FILE = join(CONFIG_DIR, "payees.json");
+const DEFAULT_MAX_VALIDITY_SECONDS = 300;
+
+export interface PaymentPolicyConfig {
+  payee_allowlist?: string[];
+  price_tolerance?: number;
+  max_payment_validity?: number;
+  allow_unverified_price?: boolean;
+}
+
+export class PaymentVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentVerificationError";
+  }
+}
+
+let payeeAllowlist: Set<string> | null = null;
+let priceTolerance = 0;
+let maxValiditySeconds = DEFAULT_MAX_VALIDITY_SECONDS;
+let allowUnverifiedPrice = false;
+
+function positiveNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+export function configurePaymentPolicy(config: PaymentPolicyConfig): void {
+  const envList = process.env.CARAVO_PAYEE_ALLOWLIST?.split(",").map((a) => a.trim()).filter(Boolean);
+  const list = envList?.length ? envList : config.payee_allowlist;
+  payeeAllowlist = list?.length ? new Set(list.map((a) => a.toLowerCase())) : null;
+  priceTolerance = positiveNumber(process.env.CARAVO_PRICE_TOLERANCE) ?? positiveNumber(config.price_tolerance) ?? 0;
+  maxValiditySeconds =
+    positiveNumber(process.env.CARAVO_MAX_PAYMENT_VALIDITY) ??
+    positiveNumber(config.max_payment_validity) ??
+    DEFAULT_MAX_VALIDITY_SECONDS;
+  const envAllow = process.env.CARAVO_ALLOW_UNVERIFIED_PRICE;
+  allowUnverifiedPrice = envAllow ? /^(1|true|yes)$/i.test(envAllow) : config.allow_unverified_price === true;
+}
+
+/** Upper bound for an authorization's validBefore window, in seconds. */
+export function getMaxValiditySeconds(): number {
+  return maxValiditySeconds;
+}
+
+function readPinnedPayees(): Record<string, string[]> {
+  try {
+    if (existsSync(PAYEES_FILE)) return JSON.parse(readFileSync(PAYEES_FILE, "utf-8"));
+  } catch { /* ignore */ }
+  return {};
+}
+
+function pinPayee(network: string, payTo: string): void {
+  const pinned = readPinnedPayees();
+  pinned[network] = [...(pinned[network] ?? []), payTo.toLowerCase()];
+  try {
+    mkdirSync(CONFIG_DIR, { recursive: true });
+    writeFileSync(PAYEES_FILE, JSON.stringify(pinned, null, 2));
+  } catch { /* ignore */ }
+  process.stderr.write(`[caravo] pinned x402 payee ${payTo} for ${network}\n`);
+}
+
+function verifyPayee(req: PaymentRequirements): void {
+  const payTo = String(req.payTo).toLowerCase();
+  if (!/^0x[0-9a-f]{40}$/.test(payTo)) {
+    throw new PaymentVerificationError(`Invalid payTo address "${req.payTo}". No payment was made.`);
+  }
+  if (payeeAllowlist) {
+    if (!payeeAllowlist.has(payTo)) {
+      throw new PaymentVerificationError(
+        `Payee ${req.payTo} is not in the payee allowlist. No payment was made.`
+      );
+    }
+    return;
+  }
+  const pinned = readPinnedPayees()[req.network] ?? [];
+  if (pinned.length > 0 && !pinned.includes(payTo)) {
+    throw new PaymentVerificationError(
+      `Payee ${req.payTo} on ${req.network} differs from the pinned payee (${pinned.join(", ")}). ` +
+        `If the marketplace changed its payment address, add it to CARAVO_PAYEE_ALLOWLIST or remove the entry from ${PAYEES_FILE}. ` +
+        `No payment was made.`
+    );
+  }
+}
+
+/**
+ * Pin the payee of a settled payment if its network has no pinned payee yet (and no allowlist
+ * is configured). Offers that were refused, declined or never settled pin nothing.
+ */
+export function recordSettledPayee(req: PaymentRequirements): void {
+  if (payeeAllowlist) return;
+  if ((readPinnedPayees()[req.network] ?? []).length > 0) return;
+  pinPayee(req.network, String(req.payTo));
+}
+
+/**
+ * Verify an offer before signing. `expectedPriceUsd` is the tool's advertised price_per_call;
+ * undefined (price unavailable) is refused unless allow_unverified_price is set.
+ * Throws PaymentVerificationError on any mismatch.
+ */
+export function verifyPaymentRequirements(req: PaymentRequirements, expectedPriceUsd?: number): void {
+  const network = getNetwork(req.network);
+  if (!network) {
+    throw new PaymentVerificationError(`Unknown payment network ${req.network}. No payment was made.`);
+  }
+  if (network.usdc.address.toLowerCase() !== String(req.asset).toLowerCase()) {
+    throw new PaymentVerificationError(
+      `Asset ${req.asset} is not the known USDC contract on ${network.name}. No payment was made.`
+    );
+  }
+
+  verifyPayee(req);
+
+  const amount = requiredAmount(req);
+  if (amount <= 0n) {
+    throw new PaymentVerificationError(`Invalid payment amount "${req.amount}". No payment was made.`);
+  }
+  const asked = Number(amount) / 10 ** network.usdc.decimals;
+  if (expectedPriceUsd === undefined) {
+    if (!allowUnverifiedPrice) {
+      throw new PaymentVerificationError(
+        `Server asked for $${asked.toFixed(6)} but the tool's advertised price could not be fetched to check it. ` +
+          `Set CARAVO_ALLOW_UNVERIFIED_PRICE=1 (or allow_unverified_price in config) to pay without the check. No payment was made.`
+      );
+    }
+    process.stderr.write(`[caravo] warning: paying $${asked.toFixed(6)} without an advertised price to check it against\n`);
+  } else if (expectedPriceUsd <= 0) {
+    throw new PaymentVerificationError(
+      `Server asked for $${asked.toFixed(6)} but the tool is advertised as free. No payment was made.`
+    );
+  } else {
+    const maxAtomic = BigInt(Math.ceil(expectedPriceUsd * (1 + priceTolerance) * 10 ** network.usdc.decimals));
+    if (amount > maxAtomic) {
+      throw new PaymentVerificationError(
+        `Server asked for $${asked.toFixed(6)} but the tool's advertised price is $${expectedPriceUsd}. No payment was made.`
+      );
+    }
+  }
+
+  if (!Number.isFinite(req.maxTimeoutSeconds) || req.maxTimeoutSeconds <= 0) {
+    throw new PaymentVerificationError(`Invalid maxTimeoutSeconds "${req.maxTimeoutSeconds}". No payment was made.`);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Pipelines: run_pipeline chains marketplace tool calls, feeding earlier results into later inputs.
+ *
+ * A pipeline is a list of steps { id, tool_id, input }, run in order. Strings in a step's input
+ * may reference steps before it:
+ *   {{steps.<id>.output.<path>}}   a value from the step's output (e.g. output.text, output.images.0.url)
+ *   {{steps.<id>.execution_id}}    the step's execution ID
+ *   {{steps.<id>.cost}}            what the step cost (USD)
+ * A string that is exactly one reference takes the referenced value as is (objects, arrays,
+ * numbers); references inside a longer string are interpolated as text.
+ * Local file paths are only resolved in the step's input as written; values filled in from
+ * earlier outputs are passed through as they are, never read from disk.
+ *
+ * References are checked before anything runs, so a typo can't fail the pipeline halfway
+ * after earlier steps were paid for.
+ *
+ * The budget is checked against listed prices; a pipeline with an unpriced step doesn't run.
+ * Balance payments (API key) are charged what the marketplace reports, which can be more; a step
+ * charged above its listed price stops the pipeline before the next step.
+ */
+
+export interface PipelineStep {
+  id: string;
+  tool_id: string;
+  input: Record<string, unknown>;
+}
+
+export interface PipelineStepResult {
+  id: string;
+  tool_id: string;
+  execution_id: string | null;
+  cost: number;
+  payment_method: string | null;
+  output?: Record<string, unknown>;
+}
+
+export class PipelineReferenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PipelineReferenceError";
+  }
+}
+
+export class PipelineBudgetError extends Error {
+  constructor(
+    public readonly stepId: string,
+    public readonly spentUsd: number,
+    public readonly priceUsd: number | undefined,
+    public readonly budgetUsd: number
+  ) {
+    super(
+      priceUsd === undefined
+        ? `Step "${stepId}" has no known price, so the $${budgetUsd} budget can't be guaranteed`
+        : `Step "${stepId}" costs $${priceUsd}; with $${spentUsd} already spent that exceeds the $${budgetUsd} budget`
+    );
+    this.name = "PipelineBudgetError";
+  }
+}
+
+export class PipelineOverchargeError extends Error {
+  constructor(
+    public readonly stepId: string,
+    public readonly costUsd: number,
+    public readonly priceUsd: number
+  ) {
+    super(`Step "${stepId}" was charged $${costUsd}, more than its listed $${priceUsd}, so the budget can't be guaranteed`);
+    this.name = "PipelineOverchargeError";
+  }
+}
+
+/** Round a USD amount to the token's 6 decimals, so sums of prices compare exactly. */
+export function roundUsd(usd: number): number {
+  return Math.round(usd * 1e6) / 1e6;
+}
+
+/**
+ * Throw PipelineBudgetError unless a step with this price can run with `spentUsd` already spent.
+ * A step without a known price never can.
+ */
+export function checkStepBudget(
+  stepId: string,
+  spentUsd: number,
+  priceUsd: number | undefined,
+  budgetUsd: number
+): asserts priceUsd is number {
+  if (typeof priceUsd !== "number" || roundUsd(spentUsd + priceUsd) > budgetUsd) {
+    throw new PipelineBudgetError(stepId, spentUsd, priceUsd, budgetUsd);
+  }
+}
+
+const STEP_ID_RE = /^[A-Za-z0-9_-]{1,64}$/;
+const REFERENCE_RE = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const STEP_FIELDS = ["output", "execution_id", "cost"];
+
+/** Every {{...}} reference in a value (strings inside arrays and objects included). */
+function collectReferences(value: unknown, refs: string[] = []): string[] {
+  if (typeof value === "string") {
+    for (const match of value.matchAll(REFERENCE_RE)) refs.push(match[1]);
+  } else if (Array.isArray(value)) {
+    value.forEach((v) => collectReferences(v, refs));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((v) => collectReferences(v, refs));
+  }
+  return refs;
+}
+
+/** Whether a step's input (or one value of it) refers to earlier steps. */
+export function hasStepReferences(value: unknown): boolean {
+  return collectReferences(value).length > 0;
+}
+
+/** Problems with a pipeline's step IDs and references; empty if it can run. */
+export function checkPipeline(steps: PipelineStep[]): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  for (const step of steps) {
+    if (!STEP_ID_RE.test(step.id)) {
+      problems.push(`step "${step.id}": IDs may only contain letters, digits, - and _`);
+    } else if (seen.has(step.id)) {
+      problems.push(`step "${step.id}": duplicate ID`);
+    }
+    for (const ref of collectReferences(step.input)) {
+      const [root, id, field] = ref.split(".");
+      if (root !== "steps" || !id || !STEP_FIELDS.includes(field)) {
+        problems.push(`step "${step.id}": {{${ref}}} — expected {{steps.<id>.output...}}, {{steps.<id>.execution_id}} or {{steps.<id>.cost}}`);
+      } else if (!seen.has(id)) {
+        problems.push(
+          `step "${step.id}": {{${ref}}} refers to ${steps.some((s) => s.id === id) ? "a later step" : `unknown step "${id}"`}`
+        );
+      }
+    }
+    seen.add(step.id);
+  }
+  return problems;
+}
+
+function lookup(ref: string, results: Map<string, PipelineStepResult>): unknown {
+  const [, id, ...path] = ref.split(".");
+  let value: unknown = results.get(id);
+  for (const key of path) {
+    if (value === null || typeof value !== "object" || !(key in value)) {
+      throw new PipelineReferenceError(`{{${ref}}}: step "${id}" has no ${path.join(".")}`);
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  if (value === undefined || value === null) {
+    throw new PipelineReferenceError(`{{${ref}}}: step "${id}" has no ${path.join(".")}`);
+  }
+  return value;
+}
+
+function substitute(value: unknown, results: Map<string, PipelineStepResult>): unknown {
+  if (typeof value === "string") {
+    const whole = /^\{\{\s*([^{}]*?)\s*\}\}$/.exec(value);
+    if (whole) return lookup(whole[1], results);
+    return value.replace(REFERENCE_RE, (_, ref: string) => {
+      const found = lookup(ref, results);
+      return typeof found === "string" ? found : JSON.stringify(found);
+    });
+  }
+  if (Array.isArray(value)) return value.map((v) => substitute(v, results));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, substitute(v, results)]));
+  }
+  return value;
+}
+
+/**
+ * A step's input with its references replaced by the results of earlier steps.
+ * Throws PipelineReferenceError when a referenced value is missing from a result.
+ */
+export function resolveStepInput(
+  input: Record<string, unknown>,
+  results: Map<string, PipelineStepResult>
+): Record<string, unknown> {
+  return substitute(input, results) as Record<string, unknown>;
+}
@@ -0,0 +1,100 @@
+/**
+ * Recipes: named presets for a marketplace tool, registered as their own recipe:<name> MCP tools.
+ *
+ * A recipe fixes some of a tool's inputs so repeated calls don't have to restate them:
+ *   defaults: used when the caller leaves the field out (the field stays in the schema, optional)
+ *   locked:   always sent as given (the field is removed from the schema)
+ * Recipes are stored in ~/.caravo/recipes.json together with the tool definition they were
+ * created from, so they register at startup without a network round trip.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import type { z } from "zod";
+import { buildFieldsShape, validateToolInput, type MarketplaceTool } from "./schema.js";
+
+const CONFIG_DIR = join(homedir(), ".caravo");
+const RECIPES_FILE = join(CONFIG_DIR, "recipes.json");
+
+export const RECIPE_NAME_RE = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+export interface Recipe {
+  name: string;
+  tool_id: string;
+  description?: string;
+  defaults: Record<string, unknown>;
+  locked: Record<string, unknown>;
+  created_at: string;
+  /** Tool definition at creation time */
+  tool: MarketplaceTool;
+}
+
+export function readRecipes(): Recipe[] {
+  try {
+    if (existsSync(RECIPES_FILE)) {
+      const data = JSON.parse(readFileSync(RECIPES_FILE, "utf-8"));
+      if (Array.isArray(data)) return data.filter((r) => typeof r?.name === "string" && r?.tool?.id);
+    }
+  } catch { /* ignore */ }
+  return [];
+}
+
+function writeRecipes(recipes: Recipe[]): void {
+  mkdirSync(CONFIG_DIR, { recursive: true });
+  writeFileSync(RECIPES_FILE, JSON.stringify(recipes, null, 2), { mode: 0o600 });
+}
+
+export function getRecipe(name: string): Recipe | undefined {
+  return readRecipes().find((r) => r.name === name);
+}
+
+/**
+ * Problems with a recipe's presets against its tool's schema (wrong types, invalid options,
+ * fields both defaulted and locked); empty if it is valid.
+ */
+export function validateRecipe(recipe: Pick<Recipe, "defaults" | "locked" | "tool">): string[] {
+  const both = Object.keys(recipe.defaults).filter((k) => k in recipe.locked);
+  const preset = { ...recipe.defaults, ...recipe.locked };
+  // Presets are partial input: check the fields given, not that every required one is present
+  const optional = { input_schema: (recipe.tool.input_schema ?? []).map((f) => ({ ...f, required: false })) };
+  return [
+    ...both.map((k) => `${k}: both a default and locked — pick one`),
+    ...validateToolInput(optional, preset),
+  ];
+}
+
+/** Store a recipe, replacing one of the same name. */
+export function saveRecipe(recipe: Recipe): void {
+  writeRecipes([...readRecipes().filter((r) => r.name !== recipe.name), recipe]);
+}
+
+/** Returns whether the recipe existed. */
+export function deleteRecipe(name: string): boolean {
+  const recipes = readRecipes();
+  const kept = recipes.filter((r) => r.name !== name);
+  if (kept.length === recipes.length) return false;
+  writeRecipes(kept);
+  return true;
+}
+
+/** Input schema of recipe:<name>: the tool's fields minus locked ones, defaulted ones optional. */
+export function buildRecipeSchemaShape(recipe: Recipe): Record<string, z.ZodTypeAny> {
+  const fields = (recipe.tool.input_schema ?? [])
+    .filter((f) => !(f.name in recipe.locked))
+    .map((f) =>
+      f.name in recipe.defaults
+        ? {
+            ...f,
+            required: false,
+            description: `${f.description ?? ""} (recipe default: ${JSON.stringify(recipe.defaults[f.name])})`.trim(),
+          }
+        : f
+    );
+  return buildFieldsShape(fields);
+}
+
+/** The tool input for a call: defaults, then the caller's values, then locked values. */
+export function applyRecipe(recipe: Recipe, input: Record<string, unknown>): Record<string, unknown> {
+  return { ...recipe.defaults, ...input, ...recipe.locked };
+}
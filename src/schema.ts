@@ -0,0 +1,271 @@
+/**
+ * Marketplace tool schema → zod conversion, used to register fav:<id> tools with typed inputs.
+ *
+ * Field types understood (aliases in parentheses):
+ *   string (text, textarea, str), number (float), integer (int), boolean (bool),
+ *   select (enum, radio), multiselect (multi_select, multi-select, checkboxes),
+ *   array (list), object (json, dict), file (image, audio, video, url, uri)
+ * Unknown types fall back to strings, as before.
+ *
+ * The same conversion backs validateToolInput(), which checks use_tool inputs locally. Fields
+ * the schema doesn't declare aren't errors (published schemas can be incomplete): they are sent
+ * as they are, and unknownInputFields() lists them so callers can warn.
+ * toolFingerprint() identifies a tool's registered shape, so fav:<id> tools can be re-registered
+ * when the provider changes it.
+ */
+
+import { createHash } from "crypto";
+import { z } from "zod";
+
+type OptionValue = string | number | boolean;
+
+export interface ToolField {
+  name: string;
+  type: string;
+  description: string;
+  required: boolean;
+  options?: (OptionValue | { label: string; value: OptionValue })[];
+  default?: unknown;
+  /** Numeric minimum, or minimum item count for arrays / multiselect */
+  min?: number;
+  /** Numeric maximum, or maximum item count for arrays / multiselect */
+  max?: number;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  min_length?: number;
+  max_length?: number;
+  /** Element schema for arrays */
+  items?: Partial<ToolField> & { type: string };
+  /** Nested fields for objects */
+  properties?: ToolField[];
+  /** Accepted MIME types / extensions for file fields */
+  accept?: string[];
+}
+
+export interface MarketplaceTool {
+  id: string;
+  name: string;
+  description: string;
+  provider: string;
+  pricing: { price_per_call: number; type: string };
+  input_schema: ToolField[];
+  tags: string[];
+}
+
+const TYPE_ALIASES: Record<string, string> = {
+  text: "string", textarea: "string", str: "string",
+  float: "number", double: "number",
+  int: "integer",
+  bool: "boolean",
+  enum: "select", radio: "select",
+  multi_select: "multiselect", "multi-select": "multiselect", checkboxes: "multiselect",
+  list: "array",
+  json: "object", dict: "object",
+  image: "file", audio: "file", video: "file", url: "file", uri: "file",
+};
+
+function normalizeType(type: string | undefined): string {
+  const t = (type ?? "string").toLowerCase();
+  return TYPE_ALIASES[t] ?? t;
+}
+
+// options may be plain values or {label, value} objects
+function optionValues(field: Partial<ToolField>): OptionValue[] {
+  return (field.options ?? []).map((o) => (typeof o === "object" && o !== null ? o.value : o));
+}
+
+function enumSchema(values: OptionValue[]): z.ZodTypeAny {
+  if (values.length === 0) return z.string();
+  if (values.every((v) => typeof v === "string")) {
+    return z.enum(values as [string, ...string[]]);
+  }
+  const literals = values.map((v) => z.literal(v));
+  return literals.length === 1
+    ? literals[0]
+    : z.union(literals as unknown as [z.ZodLiteral<OptionValue>, z.ZodLiteral<OptionValue>, ...z.ZodLiteral<OptionValue>[]]);
+}
+
+function numberSchema(field: Partial<ToolField>, integer: boolean): z.ZodTypeAny {
+  let schema = z.number();
+  if (integer) schema = schema.int();
+  const min = field.min ?? field.minimum;
+  const max = field.max ?? field.maximum;
+  if (min !== undefined) schema = schema.min(min);
+  if (max !== undefined) schema = schema.max(max);
+  return schema;
+}
+
+function stringSchema(field: Partial<ToolField>): z.ZodTypeAny {
+  let schema = z.string();
+  if (field.min_length !== undefined) schema = schema.min(field.min_length);
+  if (field.max_length !== undefined) schema = schema.max(field.max_length);
+  if (field.pattern) {
+    try {
+      schema = schema.regex(new RegExp(field.pattern));
+    } catch { /* invalid server regex — don't enforce */ }
+  }
+  return schema;
+}
+
+function withItemCount(schema: z.ZodArray<z.ZodTypeAny>, field: Partial<ToolField>): z.ZodTypeAny {
+  let s = schema;
+  if (field.min !== undefined) s = s.min(field.min);
+  if (field.max !== undefined) s = s.max(field.max);
+  return s;
+}
+
+function fileDescription(field: Partial<ToolField>): string {
+  const accepts = field.accept?.length ? ` Accepts: ${field.accept.join(", ")}.` : "";
+  return `${field.description ?? ""} (URL or local file path)${accepts}`.trim();
+}
+
+/** Convert one marketplace field definition (without optional/default handling) to zod. */
+export function fieldToZod(field: Partial<ToolField> & { type: string }): z.ZodTypeAny {
+  const type = normalizeType(field.type);
+  let schema: z.ZodTypeAny;
+  let description = field.description;
+
+  switch (type) {
+    case "select":
+      schema = enumSchema(optionValues(field));
+      break;
+    case "multiselect":
+      schema = withItemCount(z.array(enumSchema(optionValues(field))), field);
+      break;
+    case "number":
+      schema = numberSchema(field, false);
+      break;
+    case "integer":
+      schema = numberSchema(field, true);
+      break;
+    case "boolean":
+      schema = z.boolean();
+      break;
+    case "array":
+      schema = withItemCount(z.array(field.items ? fieldToZod(field.items) : z.unknown()), field);
+      break;
+    case "object":
+      schema = field.properties?.length
+        ? z.object(buildFieldsShape(field.properties)).passthrough()
+        : z.record(z.string(), z.unknown());
+      break;
+    case "file":
+      // The value may be a local path, uploaded and replaced by a URL later: the server's pattern is for that URL
+      schema = stringSchema({ ...field, pattern: undefined });
+      description = fileDescription(field);
+      break;
+    default:
+      schema = stringSchema(field);
+  }
+
+  return description ? schema.describe(description) : schema;
+}
+
+/** Shape for a list of fields, applying required/optional and defaults. */
+export function buildFieldsShape(fields: ToolField[]): Record<string, z.ZodTypeAny> {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields) {
+    if (!field?.name) continue;
+    const schema = fieldToZod(field);
+    if (field.required) {
+      shape[field.name] = schema;
+    } else if (field.default !== undefined && schema.safeParse(field.default).success) {
+      shape[field.name] = schema.default(field.default);
+    } else {
+      shape[field.name] = schema.optional();
+    }
+  }
+  return shape;
+}
+
+export function buildSchemaShape(tool: MarketplaceTool): Record<string, z.ZodTypeAny> {
+  return buildFieldsShape(tool.input_schema ?? []);
+}
+
+/** Hash of what a provider may change under a fav:<id> registration: input schema, price and description. */
+export function toolFingerprint(tool: MarketplaceTool): string {
+  const { description, pricing, input_schema } = tool;
+  return createHash("sha256")
+    .update(JSON.stringify([input_schema ?? [], pricing?.price_per_call, description]))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+// ─── Input validation ─────────────────────────────────────────────────────────
+
+function editDistance(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = tmp;
+    }
+  }
+  return prev[b.length];
+}
+
+/** Closest known field name to a misspelled one, if any is reasonably close. */
+function suggestField(name: string, known: string[]): string | undefined {
+  const lower = name.toLowerCase();
+  let best: { name: string; distance: number } | undefined;
+  for (const candidate of known) {
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (!best || distance < best.distance) best = { name: candidate, distance };
+  }
+  if (!best) return undefined;
+  return best.distance <= Math.max(2, Math.floor(best.name.length / 3)) ? best.name : undefined;
+}
+
+function describeValue(value: unknown): string {
+  return typeof value === "string" ? `"${value}"` : JSON.stringify(value) ?? String(value);
+}
+
+function formatIssue(issue: z.ZodIssue): string[] {
+  const path = issue.path.join(".");
+  switch (issue.code) {
+    case "invalid_type":
+      return issue.received === "undefined"
+        ? [`${path}: missing required field`]
+        : [`${path}: expected ${issue.expected}, got ${issue.received}`];
+    case "invalid_enum_value":
+      return [`${path}: invalid option ${describeValue(issue.received)} — must be one of: ${issue.options.map(describeValue).join(", ")}`];
+    case "invalid_union":
+    case "invalid_literal":
+      return [`${path}: invalid option`];
+    default:
+      return [`${path}: ${issue.message}`];
+  }
+}
+
+/**
+ * Validate a use_tool input against a tool's input_schema.
+ * Returns one human-readable message per problem; empty when the input is valid
+ * (or the tool publishes no schema to check against). Undeclared fields are not problems.
+ */
+export function validateToolInput(tool: Pick<MarketplaceTool, "input_schema">, input: Record<string, unknown>): string[] {
+  const fields = Array.isArray(tool.input_schema) ? tool.input_schema : [];
+  if (fields.length === 0) return [];
+  const result = z.object(buildFieldsShape(fields)).passthrough().safeParse(input);
+  if (result.success) return [];
+  return result.error.issues.flatMap(formatIssue);
+}
+
+/**
+ * Top-level input fields the tool's input_schema doesn't declare, one warning each (with the
+ * closest declared name when one is near). Empty when the tool publishes no schema.
+ */
+export function unknownInputFields(tool: Pick<MarketplaceTool, "input_schema">, input: Record<string, unknown>): string[] {
+  const fields = Array.isArray(tool.input_schema) ? tool.input_schema : [];
+  if (fields.length === 0) return [];
+  const known = fields.map((f) => f.name).filter(Boolean);
+  return Object.keys(input)
+    .filter((key) => !known.includes(key))
+    .map((key) => {
+      const suggestion = suggestField(key, known);
+      return `${key}: not in the tool's input schema, sent as is${suggestion ? ` — did you mean "${suggestion}"?` : ""}`;
+    });
+}
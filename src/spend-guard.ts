@@ -0,0 +1,162 @@
+/**
+ * Spend guard: refuses to sign x402 payments that would exceed configured caps.
+ *
+ * Limits (USD, all optional — unset means unlimited):
+ *   - per_call:    max price of a single payment
+ *   - per_session: max total paid since this MCP server process started
+ *   - daily:       max total paid in any rolling 24h window (persisted across restarts)
+ *
+ * Sources, env taking priority over config:
+ *   CARAVO_MAX_PER_CALL / CARAVO_MAX_PER_SESSION / CARAVO_MAX_DAILY
+ *   ~/.caravo/config.json → { "spend_limits": { "per_call", "per_session", "daily" } }
+ * A limit that is set but isn't a non-negative number is an error, never "unlimited".
+ *
+ * Settled payments are appended to ~/.caravo/spending.json (pruned to the last 24h).
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+
+const CONFIG_DIR = join(homedir(), ".caravo");
+const SPENDING_FILE = join(CONFIG_DIR, "spending.json");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SpendLimits {
+  per_call?: number;
+  per_session?: number;
+  daily?: number;
+}
+
+interface SpendRecord {
+  at: number;
+  usd: number;
+}
+
+export class SpendLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpendLimitError";
+  }
+}
+
+let limits: SpendLimits = {};
+let sessionSpent = 0;
+// Amount signed but not yet settled — counted against caps so parallel calls can't overshoot
+let pending = 0;
+
+function isUnset(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+/** A limit in USD; throws on a value that is set but invalid, so a typo can't lift a cap. */
+function parseLimit(value: unknown, source: string): number | undefined {
+  if (isUnset(value)) return undefined;
+  const n = typeof value === "number" ? value : typeof value === "string" ? Number(value.trim()) : NaN;
+  if (!Number.isFinite(n) || n < 0) {
+    throw new SpendLimitError(`Invalid ${source} ${JSON.stringify(value)}: expected a non-negative amount in USD, e.g. 5 or 0.5`);
+  }
+  return n;
+}
+
+/** An env var's limit if it is set, otherwise the config's (an invalid env value throws; it doesn't fall back). */
+function resolveLimit(envName: string, configValue: unknown, configKey: string): number | undefined {
+  const env = process.env[envName];
+  return isUnset(env) ? parseLimit(configValue, `spend_limits.${configKey}`) : parseLimit(env, envName);
+}
+
+/**
+ * Resolve limits from env vars, falling back to the `spend_limits` block of config.json.
+ * Throws SpendLimitError when a limit is set to something that isn't a non-negative number.
+ */
+export function resolveSpendLimits(config: { spend_limits?: SpendLimits }): SpendLimits {
+  const fromConfig = config.spend_limits ?? {};
+  return {
+    per_call: resolveLimit("CARAVO_MAX_PER_CALL", fromConfig.per_call, "per_call"),
+    per_session: resolveLimit("CARAVO_MAX_PER_SESSION", fromConfig.per_session, "per_session"),
+    daily: resolveLimit("CARAVO_MAX_DAILY", fromConfig.daily, "daily"),
+  };
+}
+
+export function configureSpendLimits(next: SpendLimits): void {
+  limits = next;
+}
+
+function readRecords(): SpendRecord[] {
+  try {
+    if (existsSync(SPENDING_FILE)) {
+      const data = JSON.parse(readFileSync(SPENDING_FILE, "utf-8"));
+      if (Array.isArray(data)) return data;
+    }
+  } catch { /* ignore */ }
+  return [];
+}
+
+function writeRecords(records: SpendRecord[]): void {
+  try {
+    mkdirSync(CONFIG_DIR, { recursive: true });
+    writeFileSync(SPENDING_FILE, JSON.stringify(records, null, 2), { mode: 0o600 });
+  } catch { /* ignore */ }
+}
+
+function dailySpent(now = Date.now()): number {
+  return readRecords()
+    .filter((r) => now - r.at < DAY_MS)
+    .reduce((sum, r) => sum + r.usd, 0);
+}
+
+function fmt(usd: number): string {
+  return `$${usd.toFixed(6).replace(/0{1,4}$/, "")}`;
+}
+
+/**
+ * Reserve `usd` against all configured caps. Throws SpendLimitError if any cap would be exceeded.
+ * Every successful reserve must be followed by settleSpend() or releaseSpend().
+ */
+export function reserveSpend(usd: number): void {
+  if (limits.per_call !== undefined && usd > limits.per_call) {
+    throw new SpendLimitError(
+      `Payment of ${fmt(usd)} exceeds the per-call limit of ${fmt(limits.per_call)}. No payment was made.`
+    );
+  }
+  if (limits.per_session !== undefined && sessionSpent + pending + usd > limits.per_session) {
+    throw new SpendLimitError(
+      `Payment of ${fmt(usd)} would exceed the per-session limit of ${fmt(limits.per_session)} ` +
+        `(${fmt(sessionSpent)} spent this session). No payment was made.`
+    );
+  }
+  if (limits.daily !== undefined) {
+    const spent = dailySpent();
+    if (spent + pending + usd > limits.daily) {
+      throw new SpendLimitError(
+        `Payment of ${fmt(usd)} would exceed the daily limit of ${fmt(limits.daily)} ` +
+          `(${fmt(spent)} spent in the last 24h). No payment was made.`
+      );
+    }
+  }
+  pending += usd;
+}
+
+/** Payment was accepted, or sent with an unknown outcome — count it toward session and daily totals. */
+export function settleSpend(usd: number): void {
+  pending = Math.max(0, pending - usd);
+  sessionSpent += usd;
+  const now = Date.now();
+  const records = readRecords().filter((r) => now - r.at < DAY_MS);
+  records.push({ at: now, usd });
+  writeRecords(records);
+}
+
+/** Payment was never sent (signing failed) or was refused by the server — drop the reservation. */
+export function releaseSpend(usd: number): void {
+  pending = Math.max(0, pending - usd);
+}
+
+/** Current limits and usage, for display in get_wallet_info. */
+export function getSpendStatus() {
+  return {
+    limits,
+    session_spent: sessionSpent,
+    daily_spent: dailySpent(),
+  };
+}
@@ -0,0 +1,328 @@
+/**
+ * Local file inputs: paths in tool input (file://, absolute, ~/, ./, ../) are replaced with
+ * something the marketplace can fetch. Strings are found anywhere in the input, including
+ * inside arrays and nested objects.
+ *
+ * A string is treated as a file when it names an existing file whose extension is in the MIME
+ * map or whose content is a recognised type (magic bytes) — so extension-less files work while
+ * ordinary strings that merely start with "/" are left alone. A missing file is an error only
+ * for explicit references (file://, ~/, ./, ../): "/v1/users.json" may be a route, not a file.
+ *
+ * - Files up to the inline threshold are sent as base64 data: URIs in the JSON body
+ * - Larger files are streamed to the marketplace upload endpoint (POST /api/uploads returns a
+ *   presigned upload_url and the file_url that replaces the path), never buffered in memory
+ * - Files over the max size are refused before anything is sent
+ * - Dry runs (checkOnly) check files the same way but neither read nor upload them
+ * - Only files under the allowed directories are read (default: home, working and temp
+ *   directories); ~/.caravo, which holds wallet keys, never is
+ *
+ * Config, env taking priority:
+ *   CARAVO_UPLOAD_THRESHOLD_BYTES / upload_threshold_bytes   (default 1 MB)
+ *   CARAVO_UPLOAD_MAX_BYTES       / upload_max_bytes         (default 500 MB)
+ *   CARAVO_FILE_DIRS              / file_dirs                (directories, ":"-separated in env)
+ *   mime_types in config: extra or overriding { ".ext": "mime/type" } entries
+ */
+
+import { closeSync, createReadStream, existsSync, openSync, readFileSync, readSync, realpathSync, statSync } from "fs";
+import { basename, delimiter, extname, join, resolve, sep } from "path";
+import { homedir, tmpdir } from "os";
+import { fileURLToPath } from "url";
+import { Readable } from "stream";
+import { httpFetch } from "./http.js";
+
+export interface UploadConfig {
+  upload_threshold_bytes?: number;
+  upload_max_bytes?: number;
+  /** Directories local files may be read from */
+  file_dirs?: string[];
+  /** Extension → MIME type, merged over the defaults */
+  mime_types?: Record<string, string>;
+}
+
+/** Bytes sent so far for one file, reported as the upload streams. */
+export interface UploadProgress {
+  path: string;
+  sent: number;
+  total: number;
+}
+
+const DEFAULT_THRESHOLD_BYTES = 1024 * 1024;
+const DEFAULT_MAX_BYTES = 500 * 1024 * 1024;
+
+const DEFAULT_MIME_MAP: Record<string, string> = {
+  ".jpg": "image/jpeg", ".jpeg": "image/jpeg", ".png": "image/png",
+  ".gif": "image/gif", ".webp": "image/webp", ".bmp": "image/bmp",
+  ".svg": "image/svg+xml", ".tif": "image/tiff", ".tiff": "image/tiff",
+  ".heic": "image/heic", ".heif": "image/heif", ".avif": "image/avif",
+  ".mp4": "video/mp4", ".webm": "video/webm", ".mov": "video/quicktime",
+  ".mkv": "video/x-matroska", ".avi": "video/x-msvideo",
+  ".mp3": "audio/mpeg", ".wav": "audio/wav", ".ogg": "audio/ogg",
+  ".m4a": "audio/mp4", ".flac": "audio/flac", ".aac": "audio/aac", ".opus": "audio/opus",
+  ".pdf": "application/pdf",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".csv": "text/csv", ".txt": "text/plain", ".md": "text/markdown",
+  ".html": "text/html", ".json": "application/json", ".zip": "application/zip",
+  ".glb": "model/gltf-binary", ".obj": "model/obj",
+};
+
+// Never readable, whatever file_dirs says: wallet keys and the API key live here
+const PROTECTED_DIR = join(homedir(), ".caravo");
+
+let thresholdBytes = DEFAULT_THRESHOLD_BYTES;
+let maxBytes = DEFAULT_MAX_BYTES;
+let mimeMap = { ...DEFAULT_MIME_MAP };
+let allowedDirs = defaultAllowedDirs();
+
+function defaultAllowedDirs(): string[] {
+  return [homedir(), process.cwd(), tmpdir()].map(canonicalPath);
+}
+
+function canonicalPath(path: string): string {
+  try {
+    return realpathSync(path);
+  } catch {
+    return resolve(path);
+  }
+}
+
+function expandHome(path: string): string {
+  return path === "~" ? homedir() : path.startsWith("~/") ? join(homedir(), path.slice(2)) : path;
+}
+
+function positiveBytes(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+export function configureUploads(config: UploadConfig): void {
+  thresholdBytes =
+    positiveBytes(process.env.CARAVO_UPLOAD_THRESHOLD_BYTES) ??
+    positiveBytes(config.upload_threshold_bytes) ??
+    DEFAULT_THRESHOLD_BYTES;
+  maxBytes =
+    positiveBytes(process.env.CARAVO_UPLOAD_MAX_BYTES) ?? positiveBytes(config.upload_max_bytes) ?? DEFAULT_MAX_BYTES;
+
+  const dirs = process.env.CARAVO_FILE_DIRS?.split(delimiter).filter(Boolean) ?? config.file_dirs;
+  allowedDirs = dirs?.length ? dirs.map((d) => canonicalPath(expandHome(d))) : defaultAllowedDirs();
+
+  mimeMap = { ...DEFAULT_MIME_MAP };
+  for (const [ext, mime] of Object.entries(config.mime_types ?? {})) {
+    if (typeof mime === "string" && mime.includes("/")) {
+      mimeMap[(ext.startsWith(".") ? ext : `.${ext}`).toLowerCase()] = mime;
+    }
+  }
+}
+
+/**
+ * The filesystem path a string refers to, if it is written as one. `explicit` marks strings that
+ * can only mean a file (file://, ~/, ./, ../), as opposed to absolute paths, which may be URL
+ * paths or routes.
+ */
+export function toLocalPath(value: string): { path: string; explicit: boolean } | null {
+  if (value.startsWith("file://")) {
+    try {
+      return { path: fileURLToPath(value), explicit: true };
+    } catch {
+      return null;
+    }
+  }
+  if (value.startsWith("~/")) return { path: join(homedir(), value.slice(2)), explicit: true };
+  if (value.startsWith("./") || value.startsWith("../")) return { path: join(process.cwd(), value), explicit: true };
+  // A bare "/" or "//host" is not a file path
+  if (/^\/[^/]/.test(value) && !/\s/.test(value)) return { path: value, explicit: false };
+  return null;
+}
+
+function extensionMime(path: string): string | undefined {
+  return mimeMap[extname(path).toLowerCase()];
+}
+
+/** MIME type from a file's leading bytes, for the formats tools commonly take. */
+export function sniffMime(path: string): string | undefined {
+  const head = Buffer.alloc(16);
+  let fd: number | undefined;
+  try {
+    fd = openSync(path, "r");
+    const n = readSync(fd, head, 0, head.length, 0);
+    if (n < 4) return undefined;
+  } catch {
+    return undefined;
+  } finally {
+    if (fd !== undefined) closeSync(fd);
+  }
+  const ascii = (start: number, end: number) => head.toString("latin1", start, end);
+  if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return "image/jpeg";
+  if (head.readUInt32BE(0) === 0x89504e47) return "image/png";
+  if (ascii(0, 4) === "GIF8") return "image/gif";
+  if (ascii(0, 4) === "RIFF") {
+    const kind = ascii(8, 12);
+    if (kind === "WEBP") return "image/webp";
+    if (kind === "WAVE") return "audio/wav";
+    if (kind === "AVI ") return "video/x-msvideo";
+  }
+  if (ascii(0, 4) === "II*\0" || ascii(0, 4) === "MM\0*") return "image/tiff";
+  if (ascii(4, 8) === "ftyp") {
+    const brand = ascii(8, 12);
+    if (["heic", "heix", "mif1", "msf1"].includes(brand)) return "image/heic";
+    if (brand === "avif") return "image/avif";
+    if (brand === "M4A ") return "audio/mp4";
+    if (brand === "qt  ") return "video/quicktime";
+    return "video/mp4";
+  }
+  if (head.readUInt32BE(0) === 0x1a45dfa3) return "video/webm";
+  if (ascii(0, 3) === "ID3" || (head[0] === 0xff && (head[1] & 0xe0) === 0xe0)) return "audio/mpeg";
+  if (ascii(0, 4) === "OggS") return "audio/ogg";
+  if (ascii(0, 4) === "fLaC") return "audio/flac";
+  if (ascii(0, 4) === "%PDF") return "application/pdf";
+  if (ascii(0, 4) === "glTF") return "model/gltf-binary";
+  if (ascii(0, 4) === "PK\x03\x04") return "application/zip";
+  return undefined;
+}
+
+function isInside(path: string, dir: string): boolean {
+  return path === dir || path.startsWith(dir.endsWith(sep) ? dir : dir + sep);
+}
+
+export interface UploadOptions {
+  /** Marketplace upload endpoint, e.g. https://caravo.ai/api/uploads */
+  endpoint: string;
+  /** Headers for the endpoint (auth); the presigned PUT gets only what the endpoint returns */
+  headers: Record<string, string>;
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+  /** Strings to leave alone even if they look like paths (e.g. run_pipeline step references) */
+  skip?: (value: string) => boolean;
+  /** Check files (exist, allowed, size) without reading or uploading them: each becomes an empty data: URI of its type */
+  checkOnly?: boolean;
+}
+
+/** Stream one file to the marketplace and return its public URL. */
+async function uploadFile(path: string, size: number, mime: string, opts: UploadOptions): Promise<string> {
+  const initResp = await httpFetch(
+    opts.endpoint,
+    {
+      method: "POST",
+      headers: opts.headers,
+      body: JSON.stringify({ filename: basename(path), content_type: mime, size }),
+    },
+    { signal: opts.signal }
+  );
+  const init = (await initResp.json().catch(() => ({}))) as {
+    upload_url?: string;
+    file_url?: string;
+    headers?: Record<string, string>;
+    error?: string;
+  };
+  if (!initResp.ok || !init.upload_url || !/^https?:\/\//i.test(init.file_url ?? "")) {
+    throw new Error(`Upload of ${path} was refused: ${init.error ?? `HTTP ${initResp.status}`}`);
+  }
+
+  // One progress report per whole percent, so a large file doesn't flood the client
+  async function* chunks() {
+    let sent = 0;
+    let lastPercent = -1;
+    for await (const chunk of createReadStream(path) as AsyncIterable<Buffer>) {
+      sent += chunk.length;
+      const percent = Math.floor((sent / size) * 100);
+      if (percent !== lastPercent) {
+        lastPercent = percent;
+        opts.onProgress?.({ path, sent, total: size });
+      }
+      yield chunk;
+    }
+  }
+  const body = Readable.toWeb(Readable.from(chunks())) as ReadableStream;
+  const putResp = await httpFetch(
+    init.upload_url,
+    {
+      method: "PUT",
+      headers: { "Content-Type": mime, "Content-Length": String(size), ...init.headers },
+      body,
+      // Required by fetch for streaming request bodies
+      duplex: "half",
+    } as RequestInit,
+    { route: "upload", signal: opts.signal }
+  );
+  await putResp.body?.cancel().catch(() => {});
+  if (!putResp.ok) throw new Error(`Upload of ${path} failed: HTTP ${putResp.status}`);
+  return init.file_url!;
+}
+
+/**
+ * A local file a string in tool input refers to, or null if the string isn't one.
+ * Throws if it is one but can't be sent: missing (explicit references only), protected,
+ * outside the allowed directories, or too large.
+ */
+export function localFile(value: string): { path: string; size: number; mime: string } | null {
+  // Skip URLs and existing data URIs
+  if (/^https?:\/\//i.test(value) || /^data:/i.test(value)) return null;
+  const local = toLocalPath(value);
+  if (!local) return null;
+  const written = local.path;
+  const declared = extensionMime(written);
+  if (!existsSync(written)) {
+    // An explicit reference with a file extension was meant as a file; anything else is just a string
+    if (declared && local.explicit) throw new Error(`Local file not found: ${written}`);
+    return null;
+  }
+  // Resolve symlinks so a link can't point outside the allowed directories
+  const path = canonicalPath(written);
+  const isProtected = isInside(path, canonicalPath(PROTECTED_DIR));
+  const allowed = !isProtected && allowedDirs.some((dir) => isInside(path, dir));
+  // Never open a file outside them just to sniff it
+  if (!declared && !allowed) return null;
+  const stat = statSync(path);
+  if (!stat.isFile()) return null;
+  const mime = declared ?? sniffMime(path);
+  if (!mime) return null;
+  if (isProtected) throw new Error(`Local file ${written} is in ${PROTECTED_DIR}, which is never uploaded`);
+  if (!allowed) {
+    throw new Error(`Local file ${written} is outside the allowed directories (set CARAVO_FILE_DIRS or file_dirs to add one)`);
+  }
+  if (stat.size > maxBytes) {
+    throw new Error(`Local file too large: ${written} (${stat.size} bytes, max ${maxBytes}; see CARAVO_UPLOAD_MAX_BYTES)`);
+  }
+  return { path, size: stat.size, mime };
+}
+
+async function resolveValue(value: unknown, opts: UploadOptions): Promise<unknown> {
+  if (Array.isArray(value)) {
+    const items: unknown[] = [];
+    for (const item of value) items.push(await resolveValue(item, opts));
+    return items;
+  }
+  if (value && typeof value === "object") {
+    const entries: Array<[string, unknown]> = [];
+    for (const [key, item] of Object.entries(value)) entries.push([key, await resolveValue(item, opts)]);
+    // fromEntries defines keys as own properties, so a nested "__proto__" key stays inert
+    return Object.fromEntries(entries);
+  }
+  if (typeof value !== "string" || opts.skip?.(value)) return value;
+
+  const file = localFile(value);
+  if (!file) return value;
+  if (opts.checkOnly) return `data:${file.mime};base64,`;
+  if (file.size <= thresholdBytes) {
+    process.stderr.write(`[caravo] file → data URI: ${file.path} (${file.mime}, ${file.size} bytes)\n`);
+    return `data:${file.mime};base64,${readFileSync(file.path).toString("base64")}`;
+  }
+  process.stderr.write(`[caravo] upload: ${file.path} (${file.mime}, ${file.size} bytes)\n`);
+  const url = await uploadFile(file.path, file.size, file.mime, opts);
+  process.stderr.write(`[caravo] upload: ${file.path} → ${url}\n`);
+  return url;
+}
+
+/**
+ * Replace local file paths anywhere in tool input with data URIs (small files) or uploaded
+ * URLs (large files). Throws if a file is missing, not allowed, too large, or its upload fails.
+ */
+export async function resolveLocalFiles(
+  input: Record<string, unknown>,
+  opts: UploadOptions
+): Promise<Record<string, unknown>> {
+  return (await resolveValue(input, opts)) as Record<string, unknown>;
+}
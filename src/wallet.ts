@@ -1,15 +1,93 @@
 import { randomBytes } from "crypto";
-import { readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
+import { execFileSync, execSync } from "child_process";
+import { readFileSync, writeFileSync, mkdirSync, existsSync, rmSync, statSync } from "fs";
 import { homedir } from "os";
-import { join } from "path";
-import { privateKeyToAccount } from "viem/accounts";
+import { join, dirname } from "path";
+import { toHex } from "viem";
+import { privateKeyToAccount, mnemonicToAccount } from "viem/accounts";
+import { encryptKeystore, decryptKeystore, type KeystoreV3 } from "./keystore.js";
 
 const WALLET_DIR = join(homedir(), ".caravo");
 const WALLET_FILE = join(WALLET_DIR, "wallet.json");
+const KEYSTORE_FILE = join(WALLET_DIR, "wallet.keystore.json");
+// Named profiles live in ~/.caravo/wallets/<name>.json / <name>.keystore.json
+const PROFILES_DIR = join(WALLET_DIR, "wallets");
+// Address + backend per profile, so wallets can be listed without unlocking them
+const REGISTRY_FILE = join(WALLET_DIR, "wallets.json");
+
+const KEYRING_SERVICE = "caravo";
+const KEYRING_ACCOUNT = "wallet";
+
+/** Profile used when neither CARAVO_WALLET nor a per-call `wallet` argument names one. */
+export const DEFAULT_WALLET = "default";
 
 export interface Wallet {
   privateKey: `0x${string}`;
   address: string;
+  /** Profile name — "default" for the original ~/.caravo/wallet.json */
+  name?: string;
+}
+
+export interface WalletProfileInfo {
+  name: string;
+  address: string;
+  backend: WalletBackend;
+  created_at: string;
+}
+
+/**
+ * Where the wallet private key lives. Selected with CARAVO_WALLET_BACKEND
+ * (or `wallet_backend` in config.json):
+ *   - plaintext: ~/.caravo/wallet.json (default, legacy)
+ *   - keystore:  ~/.caravo/wallet.keystore.json, V3 keystore unlocked by a passphrase
+ *   - keyring:   OS keyring (macOS Keychain via `security`, Linux Secret Service via `secret-tool`)
+ *   - command:   external secret command (CARAVO_WALLET_SECRET_COMMAND prints the key)
+ */
+export interface SecretProvider {
+  readonly name: string;
+  /** Return the stored private key, or null if nothing is stored yet. Rejects if storage is unreadable. */
+  load(): Promise<`0x${string}` | null>;
+  save(privateKey: `0x${string}`): Promise<void>;
+}
+
+export type WalletBackend = "plaintext" | "keystore" | "keyring" | "command";
+
+function isPrivateKey(value: string): value is `0x${string}` {
+  return /^0x[0-9a-fA-F]{64}$/.test(value);
+}
+
+/** Validate a profile name. Returns an error message or null. */
+export function validateWalletName(name: string): string | null {
+  if (!/^[a-zA-Z0-9][a-zA-Z0-9_-]{0,63}$/.test(name)) {
+    return "Invalid wallet name: use 1-64 letters, numbers, hyphens or underscores";
+  }
+  return null;
+}
+
+function profilePaths(name: string) {
+  if (name === DEFAULT_WALLET) return { plaintext: WALLET_FILE, keystore: KEYSTORE_FILE, keyringAccount: KEYRING_ACCOUNT };
+  return {
+    plaintext: join(PROFILES_DIR, `${name}.json`),
+    keystore: join(PROFILES_DIR, `${name}.keystore.json`),
+    keyringAccount: `${KEYRING_ACCOUNT}:${name}`,
+  };
+}
+
+function readRegistry(): Record<string, WalletProfileInfo> {
+  try {
+    if (existsSync(REGISTRY_FILE)) return JSON.parse(readFileSync(REGISTRY_FILE, "utf-8"));
+  } catch { /* ignore */ }
+  return {};
+}
+
+function registerProfile(name: string, address: string, backend: WalletBackend): void {
+  const registry = readRegistry();
+  if (registry[name]?.address === address && registry[name]?.backend === backend) return;
+  registry[name] = { name, address, backend, created_at: registry[name]?.created_at ?? new Date().toISOString() };
+  try {
+    mkdirSync(WALLET_DIR, { recursive: true });
+    writeFileSync(REGISTRY_FILE, JSON.stringify(registry, null, 2), { mode: 0o600 });
+  } catch { /* ignore */ }
 }
 
 /**
@@ -34,19 +112,297 @@ function tryLoadWallet(path: string): Wallet | null {
   }
 }
 
-export function loadOrCreateWallet(): Wallet {
-  // 1. Check our own wallet first
-  const own = tryLoadWallet(WALLET_FILE);
-  if (own) return own;
+/**
+ * Passphrase for the keystore backend, from (in order):
+ * CARAVO_WALLET_PASSPHRASE, CARAVO_WALLET_PASSPHRASE_FILE, CARAVO_WALLET_PASSPHRASE_FD.
+ */
+function readPassphrase(): string {
+  if (process.env.CARAVO_WALLET_PASSPHRASE) return process.env.CARAVO_WALLET_PASSPHRASE;
+  const file = process.env.CARAVO_WALLET_PASSPHRASE_FILE;
+  if (file) return readFileSync(file, "utf-8").replace(/\r?\n$/, "");
+  const fd = process.env.CARAVO_WALLET_PASSPHRASE_FD;
+  if (fd) return readFileSync(Number(fd), "utf-8").replace(/\r?\n$/, "");
+  throw new Error(
+    "Wallet keystore is encrypted: set CARAVO_WALLET_PASSPHRASE, CARAVO_WALLET_PASSPHRASE_FILE or CARAVO_WALLET_PASSPHRASE_FD"
+  );
+}
+
+export function plaintextProvider(path = WALLET_FILE): SecretProvider {
+  return {
+    name: "plaintext",
+    load: async () => tryLoadWallet(path)?.privateKey ?? null,
+    save: async (privateKey) => {
+      const wallet: Wallet = { privateKey, address: privateKeyToAccount(privateKey).address };
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, JSON.stringify(wallet, null, 2), { mode: 0o600 });
+    },
+  };
+}
+
+export function keystoreProvider(path = KEYSTORE_FILE, getPassphrase = readPassphrase): SecretProvider {
+  // Cache so the passphrase fd/file is only read once per process
+  let passphrase: string | undefined;
+  const pass = () => (passphrase ??= getPassphrase());
+  // Decrypted once per provider: each scrypt pass costs about a second and 256 MB.
+  // save() doesn't fill it, so reading back after a save really decrypts the file.
+  let key: `0x${string}` | undefined;
+  return {
+    name: "keystore",
+    load: async () => {
+      if (key) return key;
+      if (!existsSync(path)) return null;
+      const keystore = JSON.parse(readFileSync(path, "utf-8")) as KeystoreV3;
+      return (key = await decryptKeystore(keystore, pass()));
+    },
+    save: async (privateKey) => {
+      const keystore = await encryptKeystore(privateKey, pass());
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, JSON.stringify(keystore, null, 2), { mode: 0o600 });
+      key = undefined;
+    },
+  };
+}
+
+export function keyringProvider(service = KEYRING_SERVICE, account = KEYRING_ACCOUNT): SecretProvider {
+  const run = (cmd: string, args: string[], input?: string): string | null => {
+    try {
+      return execFileSync(cmd, args, { input, encoding: "utf-8", stdio: ["pipe", "pipe", "ignore"] }).trim();
+    } catch {
+      return null;
+    }
+  };
+  if (process.platform === "darwin") {
+    const load = async () => {
+      const key = run("security", ["find-generic-password", "-s", service, "-a", account, "-w"]);
+      return key && isPrivateKey(key) ? key : null;
+    };
+    return {
+      name: "keyring",
+      load,
+      save: async (privateKey) => {
+        // `security -i` reads the command from stdin, so the key never shows up in argv (ps).
+        // Interactive mode exits 0 even if the command fails, so read the key back to confirm.
+        const command = `add-generic-password -U -s "${service}" -a "${account}" -w "${privateKey}"\n`;
+        if (run("security", ["-i"], command) === null || (await load()) !== privateKey) {
+          throw new Error("Could not store wallet key in macOS Keychain");
+        }
+      },
+    };
+  }
+  if (process.platform === "linux") {
+    return {
+      name: "keyring",
+      load: async () => {
+        const key = run("secret-tool", ["lookup", "service", service, "account", account]);
+        return key && isPrivateKey(key) ? key : null;
+      },
+      save: async (privateKey) => {
+        const args = ["store", "--label", `Caravo wallet (${account})`, "service", service, "account", account];
+        if (run("secret-tool", args, privateKey) === null) {
+          throw new Error("Could not store wallet key with secret-tool (is libsecret installed?)");
+        }
+      },
+    };
+  }
+  throw new Error(`Keyring wallet backend is not supported on ${process.platform}; use keystore or command`);
+}
+
+/**
+ * External secret command, e.g. `op read op://vault/caravo/key` or `vault kv get -field=key secret/caravo`.
+ * CARAVO_WALLET_SECRET_COMMAND prints the key on stdout; the optional
+ * CARAVO_WALLET_SECRET_STORE_COMMAND receives a new key on stdin.
+ * Both run with CARAVO_WALLET_NAME set to the profile name.
+ */
+export function commandProvider(
+  profile = DEFAULT_WALLET,
+  loadCommand = process.env.CARAVO_WALLET_SECRET_COMMAND,
+  storeCommand = process.env.CARAVO_WALLET_SECRET_STORE_COMMAND
+): SecretProvider {
+  if (!loadCommand) throw new Error("Command wallet backend requires CARAVO_WALLET_SECRET_COMMAND");
+  const env = { ...process.env, CARAVO_WALLET_NAME: profile };
+  return {
+    name: "command",
+    load: async () => {
+      const out = execSync(loadCommand, { env, encoding: "utf-8", stdio: ["ignore", "pipe", "inherit"] }).trim();
+      if (!out) return null;
+      if (!isPrivateKey(out)) throw new Error("CARAVO_WALLET_SECRET_COMMAND did not print a 0x-prefixed 32-byte private key");
+      return out;
+    },
+    save: async (privateKey) => {
+      if (!storeCommand) {
+        throw new Error("No key returned by CARAVO_WALLET_SECRET_COMMAND and CARAVO_WALLET_SECRET_STORE_COMMAND is not set");
+      }
+      execSync(storeCommand, { env, input: privateKey, stdio: ["pipe", "ignore", "inherit"] });
+    },
+  };
+}
+
+function resolveBackend(configured: string | undefined, profile: string): WalletBackend {
+  const backend = process.env.CARAVO_WALLET_BACKEND || configured;
+  if (backend) {
+    if (!["plaintext", "keystore", "keyring", "command"].includes(backend)) {
+      throw new Error(`Unknown wallet backend "${backend}" (expected plaintext, keystore, keyring or command)`);
+    }
+    return backend as WalletBackend;
+  }
+  // An existing keystore implies the keystore backend even without explicit config
+  return existsSync(profilePaths(profile).keystore) ? "keystore" : "plaintext";
+}
+
+export function createSecretProvider(backend: WalletBackend, profile = DEFAULT_WALLET): SecretProvider {
+  const paths = profilePaths(profile);
+  switch (backend) {
+    case "plaintext": return plaintextProvider(paths.plaintext);
+    case "keystore": return keystoreProvider(paths.keystore);
+    case "keyring": return keyringProvider(KEYRING_SERVICE, paths.keyringAccount);
+    case "command": return commandProvider(profile);
+  }
+}
+
+/**
+ * Move a legacy plaintext wallet into a secure provider.
+ * The plaintext file is only deleted after the key reads back identically.
+ */
+async function migratePlaintextWallet(provider: SecretProvider, path: string): Promise<`0x${string}` | null> {
+  const legacy = tryLoadWallet(path);
+  if (!legacy) return null;
+  await provider.save(legacy.privateKey);
+  if ((await provider.load()) !== legacy.privateKey) {
+    throw new Error(`Wallet migration to ${provider.name} failed verification; ${path} left in place`);
+  }
+  rmSync(path);
+  process.stderr.write(`[caravo] wallet: migrated ${path} to ${provider.name} backend\n`);
+  return legacy.privateKey;
+}
+
+/**
+ * Open a profile through its backend, reading (and for keystores decrypting) the key once.
+ * A legacy plaintext wallet is migrated into the backend; with `create`, a missing profile
+ * gets a new key, otherwise it is null.
+ */
+async function openWallet(configuredBackend: string | undefined, name: string, create: boolean): Promise<Wallet | null> {
+  const backend = resolveBackend(configuredBackend, name);
+  const provider = createSecretProvider(backend, name);
+
+  // 1. Check the selected backend first, then migrate any legacy plaintext wallet into it
+  let privateKey = await provider.load();
+  if (!privateKey && provider.name !== "plaintext") {
+    privateKey = await migratePlaintextWallet(provider, profilePaths(name).plaintext);
+  }
 
   // 2. No existing wallet found — generate new
-  const privateKey = ("0x" + randomBytes(32).toString("hex")) as `0x${string}`;
-  const account = privateKeyToAccount(privateKey);
-  const wallet: Wallet = { privateKey, address: account.address };
+  if (!privateKey) {
+    if (!create) return null;
+    privateKey = ("0x" + randomBytes(32).toString("hex")) as `0x${string}`;
+    await provider.save(privateKey);
+  }
+
+  const address = privateKeyToAccount(privateKey).address;
+  registerProfile(name, address, backend);
+  return { privateKey, address, name };
+}
+
+export async function loadOrCreateWallet(configuredBackend?: string, name = DEFAULT_WALLET): Promise<Wallet> {
+  return (await openWallet(configuredBackend, name, true))!;
+}
+
+/**
+ * Load an existing profile without creating it. Returns null if the profile has no stored key,
+ * so a typo in a per-call `wallet` argument can't silently create (and pay from) a new empty wallet.
+ */
+export function loadWallet(configuredBackend: string | undefined, name: string): Promise<Wallet | null> {
+  return openWallet(configuredBackend, name, false);
+}
+
+export type WalletSecret =
+  | { privateKey: string }
+  | { mnemonic: string; addressIndex?: number };
+
+const MAX_SECRET_FILE_BYTES = 4096;
+
+/**
+ * Read a secret (private key, mnemonic or passphrase) from a file or an environment variable,
+ * so it never travels as a tool argument. Errors never include the value.
+ */
+export function readSecretSource(source: { file?: string; env?: string }): string {
+  if (!source.file === !source.env) throw new Error("Provide exactly one of a file or an environment variable");
+  if (source.env) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(source.env)) throw new Error(`Invalid environment variable name "${source.env}"`);
+    const value = process.env[source.env]?.trim();
+    if (!value) throw new Error(`Environment variable ${source.env} is not set`);
+    return value;
+  }
+  const path = source.file!.startsWith("~/") ? join(homedir(), source.file!.slice(2)) : source.file!;
+  let value: string;
+  try {
+    if (statSync(path).size > MAX_SECRET_FILE_BYTES) throw new Error("file is too large to hold a secret");
+    value = readFileSync(path, "utf-8").trim();
+  } catch (err) {
+    const reason = (err as NodeJS.ErrnoException).code ?? (err instanceof Error ? err.message : String(err));
+    throw new Error(`Could not read ${path}: ${reason}`);
+  }
+  if (!value) throw new Error(`${path} is empty`);
+  return value;
+}
+
+/** A private key or a BIP-39 mnemonic, told apart by shape (64 hex digits is a key). */
+export function parseWalletSecret(value: string, addressIndex?: number): WalletSecret {
+  return /^(0x)?[0-9a-fA-F]{64}$/.test(value.trim()) ? { privateKey: value } : { mnemonic: value, addressIndex };
+}
+
+/** Store an existing key or BIP-39 mnemonic as a new named profile. Refuses to overwrite. */
+export async function importWallet(configuredBackend: string | undefined, name: string, secret: WalletSecret): Promise<Wallet> {
+  const nameError = validateWalletName(name);
+  if (nameError) throw new Error(nameError);
+
+  let privateKey: `0x${string}`;
+  if ("mnemonic" in secret) {
+    let account;
+    try {
+      account = mnemonicToAccount(secret.mnemonic.trim(), { addressIndex: secret.addressIndex ?? 0 });
+    } catch {
+      // Don't surface library errors, which may quote the phrase
+      throw new Error("Invalid mnemonic: expected a BIP-39 phrase or a 32-byte hex private key");
+    }
+    const hdKey = account.getHdKey().privateKey;
+    if (!hdKey) throw new Error("Could not derive a private key from the mnemonic");
+    privateKey = toHex(hdKey);
+  } else {
+    const raw = secret.privateKey.trim();
+    const hex = raw.startsWith("0x") ? raw : `0x${raw}`;
+    if (!isPrivateKey(hex)) throw new Error("Invalid private key: expected 32 bytes of hex");
+    privateKey = hex;
+  }
+
+  const backend = resolveBackend(configuredBackend, name);
+  const provider = createSecretProvider(backend, name);
+  if ((await provider.load()) || tryLoadWallet(profilePaths(name).plaintext)) {
+    throw new Error(`Wallet "${name}" already exists`);
+  }
+  await provider.save(privateKey);
+
+  const address = privateKeyToAccount(privateKey).address;
+  registerProfile(name, address, backend);
+  return { privateKey, address, name };
+}
+
+/**
+ * Export a loaded profile as an encrypted V3 keystore. Keystore-backed profiles return the stored
+ * file as is (nothing is decrypted); otherwise the key is encrypted once with the given
+ * passphrase (or CARAVO_WALLET_PASSPHRASE).
+ */
+export async function exportKeystore(configuredBackend: string | undefined, wallet: Wallet, passphrase?: string): Promise<KeystoreV3> {
+  const name = wallet.name ?? DEFAULT_WALLET;
+  const backend = resolveBackend(configuredBackend, name);
+  if (backend === "keystore" && !passphrase) {
+    return JSON.parse(readFileSync(profilePaths(name).keystore, "utf-8"));
+  }
+  return encryptKeystore(wallet.privateKey, passphrase ?? readPassphrase());
+}
 
-  mkdirSync(WALLET_DIR, { recursive: true });
-  writeFileSync(WALLET_FILE, JSON.stringify(wallet, null, 2), { mode: 0o600 });
-  return wallet;
+/** All known profiles (from the registry — does not unlock any keys). */
+export function listWallets(): WalletProfileInfo[] {
+  return Object.values(readRegistry()).sort((a, b) => a.name.localeCompare(b.name));
 }
 
 export function getAccount(wallet: Wallet) {
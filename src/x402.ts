@@ -1,10 +1,8 @@
 import { randomBytes } from "crypto";
 import { getAddress } from "viem";
-import { signTypedData } from "viem/actions";
-import { createWalletClient, http } from "viem";
-import { base } from "viem/chains";
 import type { Wallet } from "./wallet.js";
 import { privateKeyToAccount } from "viem/accounts";
+import { getNetwork } from "./networks.js";
 
 // EIP-3009 TransferWithAuthorization types
 const authorizationTypes = {
@@ -22,6 +20,8 @@ export interface PaymentRequirements {
   scheme: string;
   network: string;
   amount: string;
+  /** x402 v1 name for `amount` */
+  maxAmountRequired?: string;
   asset: string;
   payTo: string;
   maxTimeoutSeconds: number;
@@ -34,16 +34,112 @@ export interface PaymentRequired {
   accepts: PaymentRequirements[];
 }
 
+// Schemes this client can sign. `exact` = EIP-3009 transferWithAuthorization.
+const SUPPORTED_SCHEMES = new Set(["exact"]);
+
+export class NoPayableRequirementsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NoPayableRequirementsError";
+  }
+}
+
+/** Atomic token amount required by an offer (v2 `amount`, falling back to v1 `maxAmountRequired`). */
+export function requiredAmount(requirements: PaymentRequirements): bigint {
+  try {
+    return BigInt(requirements.amount ?? requirements.maxAmountRequired ?? "0");
+  } catch {
+    return -1n;
+  }
+}
+
+/** Why this client can't pay an offer, or null if it can (balance aside). */
+function unsupportedReason(req: PaymentRequirements): string | null {
+  if (!SUPPORTED_SCHEMES.has(req.scheme)) return `unsupported scheme "${req.scheme}"`;
+  // EIP-3009 tokens we know how to pay with come from the network registry
+  const network = getNetwork(req.network);
+  if (!network) return `unsupported network ${req.network}`;
+  if (network.usdc.address.toLowerCase() !== String(req.asset).toLowerCase()) {
+    return `unsupported asset ${req.asset} on ${req.network}`;
+  }
+  if (requiredAmount(req) < 0n) return `invalid amount "${req.amount}"`;
+  return null;
+}
+
+function byAmount(a: PaymentRequirements, b: PaymentRequirements): number {
+  const diff = requiredAmount(a) - requiredAmount(b);
+  return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+}
+
+/** Cheapest offer this client supports, ignoring balance — for price previews. */
+export function cheapestSupportedRequirements(accepts: PaymentRequirements[]): PaymentRequirements | null {
+  return accepts.filter((req) => !unsupportedReason(req)).sort(byAmount)[0] ?? null;
+}
+
+export interface SelectionResult {
+  /** Cheapest offer we support and can afford, or null */
+  selected: PaymentRequirements | null;
+  /** Each offer that was passed over, with the reason */
+  rejected: Array<{ requirements: PaymentRequirements; reason: string; insufficientBalance?: boolean }>;
+}
+
+/**
+ * Pick the cheapest offer from `accepts` that this client supports and the wallet can afford.
+ * `balanceOf` returns the wallet's balance of an offer's asset, or null when unknown — unknown
+ * balances don't disqualify an offer, since the server is the final judge.
+ */
+export async function selectPaymentRequirements(
+  accepts: PaymentRequirements[],
+  balanceOf?: (requirements: PaymentRequirements) => Promise<bigint | null>
+): Promise<SelectionResult> {
+  const rejected: SelectionResult["rejected"] = [];
+  const candidates: PaymentRequirements[] = [];
+  for (const req of accepts) {
+    const reason = unsupportedReason(req);
+    if (reason) rejected.push({ requirements: req, reason });
+    else candidates.push(req);
+  }
+
+  candidates.sort(byAmount);
+
+  for (const req of candidates) {
+    const balance = balanceOf ? await balanceOf(req).catch(() => null) : null;
+    if (balance !== null && balance < requiredAmount(req)) {
+      rejected.push({ requirements: req, reason: `insufficient balance on ${req.network}`, insufficientBalance: true });
+      continue;
+    }
+    return { selected: req, rejected };
+  }
+  return { selected: null, rejected };
+}
+
+export interface PaymentPayload {
+  x402Version: number;
+  resource: undefined;
+  accepted: PaymentRequirements;
+  payload: {
+    authorization: {
+      from: string;
+      to: string;
+      value: string;
+      validAfter: string;
+      validBefore: string;
+      nonce: `0x${string}`;
+    };
+    signature: string;
+  };
+}
+
 function createNonce(): `0x${string}` {
   return ("0x" + randomBytes(32).toString("hex")) as `0x${string}`;
 }
 
 export async function signPayment(
   requirements: PaymentRequirements,
-  wallet: Wallet
-): Promise<object> {
+  wallet: Wallet,
+  maxValiditySeconds = Infinity
+): Promise<PaymentPayload> {
   const account = privateKeyToAccount(wallet.privateKey);
-  const client = createWalletClient({ account, chain: base, transport: http() });
 
   const now = Math.floor(Date.now() / 1000);
   const chainId = parseInt(requirements.network.split(":")[1]);
@@ -52,16 +148,18 @@ export async function signPayment(
   const authorization = {
     from: getAddress(account.address),
     to: getAddress(requirements.payTo),
-    value: BigInt(requirements.amount),
+    value: requiredAmount(requirements),
     validAfter: BigInt(now - 60),
-    validBefore: BigInt(now + requirements.maxTimeoutSeconds),
+    validBefore: BigInt(now + Math.min(requirements.maxTimeoutSeconds, maxValiditySeconds)),
     nonce,
   };
 
-  const tokenName = requirements.extra?.name ?? "USD Coin";
-  const tokenVersion = requirements.extra?.version ?? "2";
+  // EIP-712 domain: server-provided values win, then the registry's known token metadata
+  const token = getNetwork(requirements.network)?.usdc;
+  const tokenName = requirements.extra?.name ?? token?.name ?? "USD Coin";
+  const tokenVersion = requirements.extra?.version ?? token?.version ?? "2";
 
-  const signature = await signTypedData(client, {
+  const signature = await account.signTypedData({
     domain: {
       name: tokenName,
       version: tokenVersion,
@@ -91,10 +189,39 @@ export async function signPayment(
   };
 }
 
+export interface X402Hooks {
+  /** Wallet balance of an offer's asset (atomic units), or null if unknown. Used to skip unaffordable offers. */
+  balanceOf?: (requirements: PaymentRequirements) => Promise<bigint | null>;
+  /** Cap on the signed authorization's validity window, regardless of the server's maxTimeoutSeconds. */
+  maxValiditySeconds?: number;
+  /** Called before a payment is signed. Throw to refuse the payment. */
+  beforeSign?: (requirements: PaymentRequirements) => Promise<void> | void;
+  /**
+   * Signal for the paid retry, created once beforeSign has returned — so time spent on the
+   * unpaid request and on approval doesn't count against the paid request's timeout.
+   * Defaults to `options.signal`.
+   */
+  paidSignal?: () => AbortSignal;
+  /**
+   * Called once per payment that passed beforeSign, after the paid retry completes.
+   * `settled` is true only when the server accepted the payment (2xx response). `sent` is true
+   * once the paid request (with its X-PAYMENT header) was attempted: with no `response`, its
+   * outcome is unknown and the authorization may still be settled on-chain.
+   */
+  afterPayment?: (result: {
+    requirements: PaymentRequirements;
+    payload: PaymentPayload | null;
+    response: Response | null;
+    settled: boolean;
+    sent: boolean;
+  }) => void;
+}
+
 export async function fetchWithX402(
   url: string,
   options: RequestInit,
   wallet: Wallet,
+  hooks: X402Hooks = {},
   maxRetries = 1
 ): Promise<Response> {
   const resp = await fetch(url, options);
@@ -121,19 +248,54 @@ export async function fetchWithX402(
     }
   }
 
-  const requirements = paymentRequired?.accepts?.[0];
-  if (!requirements) return resp;
+  const accepts = paymentRequired?.accepts ?? [];
+  if (accepts.length === 0) return resp;
 
-  // Sign payment
-  const paymentPayload = await signPayment(requirements, wallet);
-  const paymentHeader = btoa(JSON.stringify(paymentPayload));
+  const { selected: requirements, rejected } = await selectPaymentRequirements(accepts, hooks.balanceOf);
+  if (!requirements) {
+    // Every supported offer is unaffordable — hand the 402 back so the caller shows funding guidance
+    if (rejected.some((r) => r.insufficientBalance)) {
+      return new Response(JSON.stringify(paymentRequired), {
+        status: 402,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    throw new NoPayableRequirementsError(
+      "None of the payment options offered by the server can be paid by this client:\n" +
+        rejected
+          .map((r) => `  • ${r.requirements.scheme} ${requiredAmount(r.requirements)} of ${r.requirements.asset} on ${r.requirements.network}: ${r.reason}`)
+          .join("\n")
+    );
+  }
 
-  // Retry with payment
-  return fetch(url, {
-    ...options,
-    headers: {
-      ...(options.headers as Record<string, string>),
-      "X-PAYMENT": paymentHeader,
-    },
-  });
+  await hooks.beforeSign?.(requirements);
+
+  let paymentPayload: PaymentPayload | null = null;
+  let paidResp: Response | null = null;
+  let sent = false;
+  try {
+    // Sign payment
+    paymentPayload = await signPayment(requirements, wallet, hooks.maxValiditySeconds);
+    const paymentHeader = btoa(JSON.stringify(paymentPayload));
+
+    // Retry with payment
+    sent = true;
+    paidResp = await fetch(url, {
+      ...options,
+      signal: hooks.paidSignal?.() ?? options.signal,
+      headers: {
+        ...(options.headers as Record<string, string>),
+        "X-PAYMENT": paymentHeader,
+      },
+    });
+    return paidResp;
+  } finally {
+    hooks.afterPayment?.({
+      requirements,
+      payload: paymentPayload,
+      response: paidResp,
+      settled: paidResp?.ok ?? false,
+      sent,
+    });
+  }
 }
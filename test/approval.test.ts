@@ -0,0 +1,24 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { resolveApprovalThreshold, PaymentApprovalError } from "../src/approval.js";
+
+describe("resolveApprovalThreshold", () => {
+  afterEach(() => {
+    delete process.env.CARAVO_APPROVAL_THRESHOLD;
+  });
+
+  it("takes the env var over config, and is off when neither is set", () => {
+    process.env.CARAVO_APPROVAL_THRESHOLD = "0";
+    assert.equal(resolveApprovalThreshold({ approval_threshold: 0.05 }), 0);
+    delete process.env.CARAVO_APPROVAL_THRESHOLD;
+    assert.equal(resolveApprovalThreshold({ approval_threshold: 0.05 }), 0.05);
+    assert.equal(resolveApprovalThreshold({}), undefined);
+  });
+
+  it("throws on an invalid value instead of turning approval off", () => {
+    process.env.CARAVO_APPROVAL_THRESHOLD = "5 cents";
+    assert.throws(() => resolveApprovalThreshold({ approval_threshold: 0.05 }), PaymentApprovalError);
+    delete process.env.CARAVO_APPROVAL_THRESHOLD;
+    assert.throws(() => resolveApprovalThreshold({ approval_threshold: -1 }), /approval_threshold -1/);
+  });
+});
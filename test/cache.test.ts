@@ -0,0 +1,87 @@
+import "./home.js";
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { cachedGetJson, invalidateCached } from "../src/cache.js";
+import { RequestCancelledError } from "../src/http.js";
+
+const TOOL_URL = "https://caravo.test/api/tools/example";
+
+function json(status: number, body: unknown, etag?: string): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...(etag ? { etag } : {}) },
+  });
+}
+
+/** A request function that replays `responses` in order and records the headers it was called with. */
+function replay(...responses: Array<Response | Error>) {
+  const calls: Array<Record<string, string>> = [];
+  const request = async (headers: Record<string, string>) => {
+    calls.push(headers);
+    const next = responses.shift();
+    if (!next) throw new Error("unexpected request");
+    if (next instanceof Error) throw next;
+    return next;
+  };
+  return { request, calls };
+}
+
+describe("cachedGetJson", () => {
+  it("serves a fresh entry without a request and revalidates a stale one with its ETag", async () => {
+    const key = "etag-revalidation";
+    const first = replay(json(200, { v: 1 }, '"abc"'));
+    assert.deepEqual(await cachedGetJson(TOOL_URL, first.request, { ttlMs: 60_000, key }), { v: 1 });
+    assert.deepEqual(first.calls, [{}]);
+
+    const fresh = replay();
+    assert.deepEqual(await cachedGetJson(TOOL_URL, fresh.request, { ttlMs: 60_000, key }), { v: 1 });
+    assert.equal(fresh.calls.length, 0);
+
+    const notModified = replay(new Response(null, { status: 304 }));
+    assert.deepEqual(await cachedGetJson(TOOL_URL, notModified.request, { ttlMs: 0, key }), { v: 1 });
+    assert.deepEqual(notModified.calls, [{ "If-None-Match": '"abc"' }]);
+
+    const changed = replay(json(200, { v: 2 }, '"def"'), new Response(null, { status: 304 }));
+    assert.deepEqual(await cachedGetJson(TOOL_URL, changed.request, { ttlMs: 60_000, key, force: true }), { v: 2 });
+    assert.deepEqual(await cachedGetJson(TOOL_URL, changed.request, { ttlMs: 0, key }), { v: 2 });
+    assert.deepEqual(changed.calls[1], { "If-None-Match": '"def"' });
+  });
+
+  it("serves a stale entry when the API is unreachable or returns 5xx", async () => {
+    const key = "stale-on-error";
+    await cachedGetJson(TOOL_URL, replay(json(200, { v: 1 })).request, { ttlMs: 0, key });
+
+    assert.deepEqual(await cachedGetJson(TOOL_URL, replay(new Error("fetch failed")).request, { ttlMs: 0, key }), { v: 1 });
+    assert.deepEqual(await cachedGetJson(TOOL_URL, replay(json(503, { error: "down" })).request, { ttlMs: 0, key }), { v: 1 });
+  });
+
+  it("rethrows failures when there is no entry, and cancellations always", async () => {
+    await assert.rejects(cachedGetJson(TOOL_URL, replay(new Error("fetch failed")).request, { ttlMs: 0, key: "no-entry" }), /fetch failed/);
+
+    const key = "cancelled";
+    await cachedGetJson(TOOL_URL, replay(json(200, { v: 1 })).request, { ttlMs: 0, key });
+    await assert.rejects(
+      cachedGetJson(TOOL_URL, replay(new RequestCancelledError(TOOL_URL)).request, { ttlMs: 0, key }),
+      RequestCancelledError
+    );
+  });
+
+  it("returns but doesn't cache non-2xx responses", async () => {
+    const key = "not-cached";
+    assert.deepEqual(await cachedGetJson(TOOL_URL, replay(json(404, { error: "not found" })).request, { ttlMs: 60_000, key }), {
+      error: "not found",
+    });
+    const next = replay(json(200, { v: 1 }));
+    assert.deepEqual(await cachedGetJson(TOOL_URL, next.request, { ttlMs: 60_000, key }), { v: 1 });
+    assert.deepEqual(next.calls, [{}]);
+  });
+
+  it("forgets an invalidated entry", async () => {
+    const key = "invalidated";
+    await cachedGetJson(TOOL_URL, replay(json(200, { v: 1 }, '"abc"')).request, { ttlMs: 60_000, key });
+    invalidateCached(key);
+    const next = replay(json(200, { v: 2 }));
+    assert.deepEqual(await cachedGetJson(TOOL_URL, next.request, { ttlMs: 60_000, key }), { v: 2 });
+    assert.deepEqual(next.calls, [{}]);
+  });
+});
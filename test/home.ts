@@ -0,0 +1,6 @@
+// Imported first by tests whose modules keep state under ~/.caravo: point HOME at a fresh temp dir
+import { mkdtempSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+
+process.env.HOME = mkdtempSync(join(tmpdir(), "caravo-test-"));
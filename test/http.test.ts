@@ -0,0 +1,97 @@
+import { describe, it, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { configureHttp, httpFetch, HttpStatusError, HttpTimeoutError, RequestCancelledError } from "../src/http.js";
+
+// Each test sets the handler; `hits` counts the requests it received
+let handler: (req: IncomingMessage, res: ServerResponse) => void = (_req, res) => res.end();
+let hits = 0;
+let server: Server;
+let base: string;
+
+before(async () => {
+  server = createServer((req, res) => {
+    hits++;
+    handler(req, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+afterEach(() => {
+  hits = 0;
+  configureHttp({});
+});
+
+/** Respond with `status` (Retry-After: 0, so retries don't wait) on the first `failures` requests, then 200. */
+function failFirst(failures: number, status = 503) {
+  return (_req: IncomingMessage, res: ServerResponse) => {
+    if (hits <= failures) res.writeHead(status, { "retry-after": "0" }).end();
+    else res.end("ok");
+  };
+}
+
+describe("httpFetch", () => {
+  it("retries a GET on a retryable status until it succeeds", async () => {
+    handler = failFirst(2);
+    const resp = await httpFetch(`${base}/get`);
+    assert.equal(resp.status, 200);
+    assert.equal(await resp.text(), "ok");
+    assert.equal(hits, 3);
+  });
+
+  it("throws HttpStatusError when a GET still fails after its retries", async () => {
+    handler = failFirst(10);
+    await assert.rejects(httpFetch(`${base}/get`, {}, { retries: 1 }), HttpStatusError);
+    assert.equal(hits, 2);
+  });
+
+  it("never retries a POST, and returns its error response as-is", async () => {
+    handler = failFirst(10);
+    const resp = await httpFetch(`${base}/execute`, { method: "POST", body: "{}" }, { retries: 5 });
+    assert.equal(resp.status, 503);
+    assert.equal(hits, 1);
+  });
+
+  it("doesn't retry a non-retryable status", async () => {
+    handler = failFirst(10, 404);
+    assert.equal((await httpFetch(`${base}/get`)).status, 404);
+    assert.equal(hits, 1);
+  });
+
+  it("times out after the route's configured timeout", async () => {
+    handler = () => {}; // never responds
+    configureHttp({ http_timeouts: { metadata: 0.2 } });
+    const started = Date.now();
+    await assert.rejects(httpFetch(`${base}/slow`, { method: "POST" }, { route: "metadata" }), (err: unknown) => {
+      assert.ok(err instanceof HttpTimeoutError);
+      assert.equal(err.timeoutMs, 200);
+      return true;
+    });
+    assert.ok(Date.now() - started < 5_000);
+    assert.equal(hits, 1);
+  });
+
+  it("retries a GET that times out", async () => {
+    handler = (_req, res) => {
+      if (hits > 1) res.end("ok");
+    };
+    configureHttp({ http_timeouts: { default: 0.2 } });
+    assert.equal((await httpFetch(`${base}/slow`)).status, 200);
+    assert.equal(hits, 2);
+  });
+
+  it("throws RequestCancelledError without retrying when the caller cancels", async () => {
+    handler = () => {};
+    const cancel = new AbortController();
+    setTimeout(() => cancel.abort(), 50);
+    await assert.rejects(httpFetch(`${base}/slow`, {}, { signal: cancel.signal }), RequestCancelledError);
+    assert.equal(hits, 1);
+  });
+});
@@ -0,0 +1,80 @@
+import "./home.js";
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  executionFingerprint,
+  beginExecution,
+  completeExecution,
+  abandonExecution,
+  getExecutionRecord,
+  findExecutionByExecutionId,
+} from "../src/idempotency.js";
+
+describe("executionFingerprint", () => {
+  it("ignores input key order but not the tool, input or wallet", () => {
+    const fp = executionFingerprint("acme/echo", { a: 1, b: { c: [1, 2] } }, "0xabc");
+    assert.equal(fp, executionFingerprint("acme/echo", { b: { c: [1, 2] }, a: 1 }, "0xabc"));
+    assert.notEqual(fp, executionFingerprint("acme/other", { a: 1, b: { c: [1, 2] } }, "0xabc"));
+    assert.notEqual(fp, executionFingerprint("acme/echo", { a: 2, b: { c: [1, 2] } }, "0xabc"));
+    assert.notEqual(fp, executionFingerprint("acme/echo", { a: 1, b: { c: [1, 2] } }, "0xdef"));
+  });
+});
+
+describe("executions", () => {
+  it("reuses the key of an interrupted call with the same fingerprint", () => {
+    const fp = executionFingerprint("acme/echo", { text: "interrupted" });
+    const first = beginExecution("acme/echo", fp);
+    assert.equal(first.reused, false);
+    assert.equal(getExecutionRecord(first.key)?.status, "pending");
+
+    const retry = beginExecution("acme/echo", fp);
+    assert.deepEqual(retry, { key: first.key, reused: true });
+
+    const other = beginExecution("acme/echo", executionFingerprint("acme/echo", { text: "different" }));
+    assert.notEqual(other.key, first.key);
+    assert.equal(other.reused, false);
+  });
+
+  it("doesn't reuse the key of a completed call", () => {
+    const fp = executionFingerprint("acme/echo", { text: "completed" });
+    const first = beginExecution("acme/echo", fp);
+    completeExecution(first.key, { execution_id: "exec-1", output: { ok: true } });
+
+    const record = getExecutionRecord(first.key);
+    assert.equal(record?.status, "completed");
+    assert.equal(record?.execution_id, "exec-1");
+    assert.deepEqual(record?.result, { execution_id: "exec-1", output: { ok: true } });
+    assert.equal(findExecutionByExecutionId("exec-1")?.idempotency_key, first.key);
+
+    const again = beginExecution("acme/echo", fp);
+    assert.notEqual(again.key, first.key);
+    assert.equal(again.reused, false);
+  });
+
+  it("records a null result without an execution id", () => {
+    const { key } = beginExecution("acme/echo", executionFingerprint("acme/echo", { text: "null" }));
+    completeExecution(key, null);
+    assert.equal(getExecutionRecord(key)?.status, "completed");
+    assert.equal(getExecutionRecord(key)?.execution_id, null);
+  });
+
+  it("forgets an abandoned key, so the next call gets a fresh one", () => {
+    const fp = executionFingerprint("acme/echo", { text: "abandoned" });
+    const first = beginExecution("acme/echo", fp);
+    abandonExecution(first.key);
+    assert.equal(getExecutionRecord(first.key), undefined);
+
+    const next = beginExecution("acme/echo", fp);
+    assert.notEqual(next.key, first.key);
+    assert.equal(next.reused, false);
+  });
+
+  it("uses an explicit key, flagging it as reused when it was seen before", () => {
+    const fp = executionFingerprint("acme/echo", { text: "explicit" });
+    assert.deepEqual(beginExecution("acme/echo", fp, { key: "my-key" }), { key: "my-key", reused: false });
+    completeExecution("my-key", { execution_id: "exec-2" });
+    assert.deepEqual(beginExecution("acme/echo", fp, { key: "my-key", wallet: "0xabc" }), { key: "my-key", reused: true });
+    assert.equal(getExecutionRecord("my-key")?.status, "pending");
+    assert.equal(getExecutionRecord("my-key")?.wallet, "0xabc");
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { decryptKeystore, encryptKeystore, type KeystoreV3 } from "../src/keystore.js";
+
+// Test vectors from the Web3 Secret Storage definition (password "testpassword")
+const PRIVATE_KEY = "0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d";
+
+const vector = (kdf: string, kdfparams: Record<string, string | number>, iv: string, ciphertext: string, mac: string): KeystoreV3 => ({
+  version: 3,
+  id: "3198bc9c-6672-5ab3-d995-4942343ae5b6",
+  address: "008aeeda4d805471df9b2a5b0f38a0c3bcba786b",
+  crypto: { cipher: "aes-128-ctr", cipherparams: { iv }, ciphertext, kdf, kdfparams, mac },
+});
+
+const PBKDF2_VECTOR = vector(
+  "pbkdf2",
+  { c: 262144, dklen: 32, prf: "hmac-sha256", salt: "ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd" },
+  "6087dab2f9fdbbfaddc31a909735c1e6",
+  "5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46",
+  "517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2"
+);
+
+// Same key under scrypt with geth's "light" parameters, computed with an independent scrypt
+// implementation (@noble/hashes). The spec's own scrypt vector uses r=1 with n=2^18, which
+// OpenSSL refuses (it requires n < 2^(16r)).
+const SCRYPT_VECTOR = vector(
+  "scrypt",
+  { dklen: 32, n: 4096, r: 8, p: 6, salt: "9c5f1a4e2b7d3c8a6e0f4b2d1a9c8e7f6b5a4d3c2b1a0f9e8d7c6b5a49382716" },
+  "1f2e3d4c5b6a79880796a5b4c3d2e1f0",
+  "cf26ed4d2b4395b53d3561bb0c87e7f03a98ad838a9ca34ceae859564e9adc08",
+  "f19862672e0f90998858a0c0729dadb5c1df324b372ea5d9a1889bad0b275144"
+);
+
+describe("decryptKeystore", () => {
+  it("decrypts the pbkdf2 test vector", async () => {
+    assert.equal(await decryptKeystore(PBKDF2_VECTOR, "testpassword"), PRIVATE_KEY);
+  });
+
+  it("decrypts the scrypt test vector", async () => {
+    assert.equal(await decryptKeystore(SCRYPT_VECTOR, "testpassword"), PRIVATE_KEY);
+  });
+
+  it("rejects a wrong passphrase", async () => {
+    await assert.rejects(decryptKeystore(PBKDF2_VECTOR, "wrong"), /MAC mismatch/);
+  });
+
+  it("rejects unsupported formats", async () => {
+    await assert.rejects(decryptKeystore({ ...PBKDF2_VECTOR, crypto: { ...PBKDF2_VECTOR.crypto, kdf: "argon2" } }, "x"), /Unsupported keystore kdf/);
+    await assert.rejects(decryptKeystore({ ...PBKDF2_VECTOR, crypto: { ...PBKDF2_VECTOR.crypto, cipher: "aes-256-gcm" } }, "x"), /Unsupported keystore cipher/);
+  });
+});
+
+describe("encryptKeystore", () => {
+  it("round-trips a key with standard scrypt parameters", async () => {
+    const keystore = await encryptKeystore(PRIVATE_KEY, "correct horse");
+    assert.equal(keystore.version, 3);
+    assert.equal(keystore.address, "008aeeda4d805471df9b2a5b0f38a0c3bcba786b");
+    assert.equal(keystore.crypto.kdf, "scrypt");
+    assert.equal(keystore.crypto.kdfparams.n, 262144);
+    assert.equal(await decryptKeystore(keystore, "correct horse"), PRIVATE_KEY);
+    await assert.rejects(decryptKeystore(keystore, "correct battery"), /MAC mismatch/);
+  });
+});
@@ -0,0 +1,83 @@
+import "./home.js";
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { appendFileSync, readFileSync, statSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { appendLedgerEntry, queryLedger, summarizeLedger, type LedgerEntry } from "../src/ledger.js";
+
+const LEDGER_FILE = join(homedir(), ".caravo", "ledger.jsonl");
+
+const entry = (overrides: Partial<LedgerEntry>): LedgerEntry => ({
+  tool_id: "flux/schnell",
+  provider: "flux",
+  execution_id: "ex-1",
+  cost: 0.01,
+  payment_method: "x402",
+  x402_nonce: null,
+  started_at: "2026-03-01T10:00:00.000Z",
+  finished_at: "2026-03-01T10:00:02.000Z",
+  outcome: "success",
+  ...overrides,
+});
+
+before(() => {
+  appendLedgerEntry(entry({}));
+  appendLedgerEntry(entry({ execution_id: "ex-2", cost: 0.02, started_at: "2026-03-01T23:30:00.000Z" }));
+  // A corrupt line (e.g. a crash mid-write) is skipped, not fatal
+  appendFileSync(LEDGER_FILE, "{not json\n");
+  appendLedgerEntry(
+    entry({ tool_id: "gpt/ocr", provider: "gpt", execution_id: null, cost: 0, payment_method: null, outcome: "error", error: "boom", started_at: "2026-03-02T08:00:00.000Z" })
+  );
+  appendLedgerEntry(entry({ tool_id: "gpt/ocr", provider: "gpt", execution_id: "ex-4", cost: 0.005, payment_method: "balance", started_at: "2026-03-03T08:00:00.000Z" }));
+});
+
+describe("appendLedgerEntry", () => {
+  it("writes one JSON line per execution, readable only by the user", () => {
+    const lines = readFileSync(LEDGER_FILE, "utf-8").trim().split("\n");
+    assert.equal(lines.length, 5);
+    assert.equal(JSON.parse(lines[0]).execution_id, "ex-1");
+    assert.equal(statSync(LEDGER_FILE).mode & 0o777, 0o600);
+  });
+});
+
+describe("queryLedger", () => {
+  it("returns every readable entry without a filter", () => {
+    assert.equal(queryLedger().length, 4);
+  });
+
+  it("filters by tool, provider and outcome", () => {
+    assert.deepEqual(queryLedger({ tool_id: "gpt/ocr" }).map((e) => e.execution_id), [null, "ex-4"]);
+    assert.equal(queryLedger({ provider: "flux" }).length, 2);
+    assert.deepEqual(queryLedger({ outcome: "error" }).map((e) => e.error), ["boom"]);
+  });
+
+  it("treats a bare 'to' date as the whole day", () => {
+    assert.deepEqual(queryLedger({ from: "2026-03-01", to: "2026-03-01" }).map((e) => e.execution_id), ["ex-1", "ex-2"]);
+    assert.equal(queryLedger({ from: "2026-03-02T00:00:00Z" }).length, 2);
+  });
+
+  it("throws on unparseable dates", () => {
+    assert.throws(() => queryLedger({ from: "yesterday" }), /Invalid 'from' date/);
+  });
+});
+
+describe("summarizeLedger", () => {
+  it("totals calls and cost overall and per tool, provider, payment method and day", () => {
+    const summary = summarizeLedger(queryLedger());
+    assert.equal(summary.total_calls, 4);
+    assert.equal(summary.successful_calls, 3);
+    assert.equal(summary.total_cost, 0.035);
+    assert.deepEqual(summary.by_tool, {
+      "flux/schnell": { calls: 2, cost: 0.03 },
+      "gpt/ocr": { calls: 2, cost: 0.005 },
+    });
+    assert.deepEqual(summary.by_payment_method, {
+      x402: { calls: 2, cost: 0.03 },
+      none: { calls: 1, cost: 0 },
+      balance: { calls: 1, cost: 0.005 },
+    });
+    assert.deepEqual(Object.keys(summary.by_day), ["2026-03-01", "2026-03-02", "2026-03-03"]);
+    assert.deepEqual(summary.by_provider.gpt, { calls: 2, cost: 0.005 });
+  });
+});
@@ -0,0 +1,85 @@
+import "./home.js";
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import {
+  configurePaymentPolicy,
+  verifyPaymentRequirements,
+  recordSettledPayee,
+  PaymentVerificationError,
+} from "../src/payment-policy.js";
+import type { PaymentRequirements } from "../src/x402.js";
+
+const BASE_USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const ARBITRUM_USDC = "0xaf88d065e77c8cC2239327C5EDb3A432268e5831";
+const PAYEE = "0x1111111111111111111111111111111111111111";
+const OTHER_PAYEE = "0x2222222222222222222222222222222222222222";
+
+const offer = (overrides: Partial<PaymentRequirements> = {}): PaymentRequirements => ({
+  scheme: "exact",
+  network: "eip155:8453",
+  amount: "10000",
+  asset: BASE_USDC,
+  payTo: PAYEE,
+  maxTimeoutSeconds: 60,
+  ...overrides,
+});
+
+configurePaymentPolicy({});
+
+describe("verifyPaymentRequirements", () => {
+  afterEach(() => configurePaymentPolicy({}));
+
+  it("accepts an offer within the advertised price", () => {
+    verifyPaymentRequirements(offer(), 0.01);
+  });
+
+  it("refuses an unknown network or an asset other than the network's USDC", () => {
+    assert.throws(() => verifyPaymentRequirements(offer({ network: "eip155:999999" }), 0.01), /Unknown payment network/);
+    assert.throws(() => verifyPaymentRequirements(offer({ asset: ARBITRUM_USDC }), 0.01), /not the known USDC contract/);
+  });
+
+  it("refuses an invalid payee or one outside the allowlist", () => {
+    assert.throws(() => verifyPaymentRequirements(offer({ payTo: "0x1234" }), 0.01), /Invalid payTo/);
+    configurePaymentPolicy({ payee_allowlist: [OTHER_PAYEE] });
+    assert.throws(() => verifyPaymentRequirements(offer(), 0.01), /not in the payee allowlist/);
+    verifyPaymentRequirements(offer({ payTo: OTHER_PAYEE.toUpperCase().replace("0X", "0x") }), 0.01);
+  });
+
+  it("refuses a payee that differs from the one pinned for the network", () => {
+    const arbitrum = (payTo: string) => offer({ network: "eip155:42161", asset: ARBITRUM_USDC, payTo });
+    verifyPaymentRequirements(arbitrum(OTHER_PAYEE), 0.01);
+    recordSettledPayee(arbitrum(PAYEE));
+    verifyPaymentRequirements(arbitrum(PAYEE), 0.01);
+    assert.throws(() => verifyPaymentRequirements(arbitrum(OTHER_PAYEE), 0.01), /differs from the pinned payee/);
+    // Already pinned: a later settlement doesn't replace the pin
+    recordSettledPayee(arbitrum(OTHER_PAYEE));
+    assert.throws(() => verifyPaymentRequirements(arbitrum(OTHER_PAYEE), 0.01), /differs from the pinned payee/);
+  });
+
+  it("refuses an amount above the advertised price, allowing the configured tolerance", () => {
+    assert.throws(() => verifyPaymentRequirements(offer({ amount: "10001" }), 0.01), /advertised price is \$0.01/);
+    configurePaymentPolicy({ price_tolerance: 0.1 });
+    verifyPaymentRequirements(offer({ amount: "11000" }), 0.01);
+    assert.throws(() => verifyPaymentRequirements(offer({ amount: "12000" }), 0.01), PaymentVerificationError);
+  });
+
+  it("refuses a zero or unparseable amount", () => {
+    assert.throws(() => verifyPaymentRequirements(offer({ amount: "0" }), 0.01), /Invalid payment amount/);
+    assert.throws(() => verifyPaymentRequirements(offer({ amount: "0.01" }), 0.01), /Invalid payment amount/);
+  });
+
+  it("refuses to pay anything for a tool advertised as free", () => {
+    assert.throws(() => verifyPaymentRequirements(offer({ amount: "1" }), 0), PaymentVerificationError);
+  });
+
+  it("refuses an unverified price unless allow_unverified_price is set", () => {
+    assert.throws(() => verifyPaymentRequirements(offer()), /could not be fetched/);
+    configurePaymentPolicy({ allow_unverified_price: true });
+    verifyPaymentRequirements(offer());
+  });
+
+  it("refuses a non-positive maxTimeoutSeconds", () => {
+    assert.throws(() => verifyPaymentRequirements(offer({ maxTimeoutSeconds: 0 }), 0.01), /Invalid maxTimeoutSeconds/);
+    assert.throws(() => verifyPaymentRequirements(offer({ maxTimeoutSeconds: NaN }), 0.01), /Invalid maxTimeoutSeconds/);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  checkPipeline,
+  checkStepBudget,
+  hasStepReferences,
+  resolveStepInput,
+  PipelineBudgetError,
+  PipelineReferenceError,
+  type PipelineStepResult,
+} from "../src/pipeline.js";
+
+const results = new Map<string, PipelineStepResult>([
+  [
+    "ocr",
+    {
+      id: "ocr",
+      tool_id: "acme/ocr",
+      execution_id: "exec-1",
+      cost: 0.01,
+      payment_method: "x402",
+      output: { text: "hello", pages: 2, images: [{ url: "https://cdn.test/1.png" }], meta: { lang: "en" } },
+    },
+  ],
+]);
+
+describe("resolveStepInput", () => {
+  it("fills in {{steps.id.output.x}} references, including array indexes", () => {
+    assert.deepEqual(
+      resolveStepInput(
+        { text: "{{steps.ocr.output.text}}", image_url: "{{ steps.ocr.output.images.0.url }}", fixed: 1 },
+        results
+      ),
+      { text: "hello", image_url: "https://cdn.test/1.png", fixed: 1 }
+    );
+  });
+
+  it("keeps the value's type for a whole-string reference and interpolates text otherwise", () => {
+    assert.deepEqual(
+      resolveStepInput(
+        {
+          pages: "{{steps.ocr.output.pages}}",
+          meta: "{{steps.ocr.output.meta}}",
+          note: "{{steps.ocr.output.pages}} pages in {{steps.ocr.output.meta}} for ${{steps.ocr.cost}}",
+          nested: [{ id: "{{steps.ocr.execution_id}}" }],
+        },
+        results
+      ),
+      { pages: 2, meta: { lang: "en" }, note: '2 pages in {"lang":"en"} for $0.01', nested: [{ id: "exec-1" }] }
+    );
+  });
+
+  it("throws PipelineReferenceError for a value missing from the result", () => {
+    assert.throws(() => resolveStepInput({ x: "{{steps.ocr.output.missing}}" }, results), PipelineReferenceError);
+    assert.throws(() => resolveStepInput({ x: "a {{steps.ocr.output.text.0.b}}" }, results), /has no output.text.0.b/);
+  });
+});
+
+describe("checkPipeline", () => {
+  it("accepts references to earlier steps", () => {
+    const steps = [
+      { id: "ocr", tool_id: "acme/ocr", input: { url: "https://x.test/a.png" } },
+      { id: "tts", tool_id: "acme/tts", input: { text: "{{steps.ocr.output.text}}" } },
+    ];
+    assert.deepEqual(checkPipeline(steps), []);
+    assert.equal(hasStepReferences(steps[0].input), false);
+    assert.equal(hasStepReferences(steps[1].input), true);
+  });
+
+  it("reports bad IDs and references to later, unknown or malformed targets", () => {
+    const problems = checkPipeline([
+      { id: "a", tool_id: "acme/x", input: { t: "{{steps.b.output.text}}", u: "{{steps.zzz.cost}}" } },
+      { id: "b", tool_id: "acme/x", input: { t: "{{output.text}}", v: "{{steps.a.price}}" } },
+      { id: "b", tool_id: "acme/x", input: {} },
+      { id: "bad id", tool_id: "acme/x", input: {} },
+    ]);
+    assert.equal(problems.length, 6);
+    assert.match(problems[0], /refers to a later step/);
+    assert.match(problems[1], /unknown step "zzz"/);
+    assert.match(problems[2], /expected \{\{steps/);
+    assert.match(problems[3], /expected \{\{steps/);
+    assert.match(problems[4], /duplicate ID/);
+    assert.match(problems[5], /IDs may only contain/);
+  });
+});
+
+describe("checkStepBudget", () => {
+  it("allows a step that fits the remaining budget, despite float rounding", () => {
+    checkStepBudget("a", 0, 0.1, 0.1);
+    checkStepBudget("b", 0.1, 0.2, 0.3);
+  });
+
+  it("stops before a step that would exceed the budget", () => {
+    assert.throws(
+      () => checkStepBudget("c", 0.25, 0.1, 0.3),
+      (err: unknown) => {
+        assert.ok(err instanceof PipelineBudgetError);
+        assert.equal(err.stepId, "c");
+        assert.match(err.message, /costs \$0.1; with \$0.25 already spent that exceeds the \$0.3 budget/);
+        return true;
+      }
+    );
+  });
+
+  it("stops before a step without a known price", () => {
+    assert.throws(() => checkStepBudget("d", 0, undefined, 10), /has no known price/);
+  });
+});
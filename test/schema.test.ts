@@ -0,0 +1,161 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { fieldToZod, buildFieldsShape, validateToolInput, unknownInputFields, type ToolField } from "../src/schema.js";
+
+const field = (overrides: Partial<ToolField> & { name: string; type: string }): ToolField => ({
+  description: "",
+  required: false,
+  ...overrides,
+});
+
+const accepts = (schema: z.ZodTypeAny, value: unknown) => schema.safeParse(value).success;
+
+describe("fieldToZod", () => {
+  it("converts arrays, using the item schema when given", () => {
+    const tags = fieldToZod({ type: "array", items: { type: "string" }, min: 1, max: 2 });
+    assert.ok(accepts(tags, ["a"]));
+    assert.ok(!accepts(tags, []));
+    assert.ok(!accepts(tags, ["a", "b", "c"]));
+    assert.ok(!accepts(tags, [1]));
+
+    const anything = fieldToZod({ type: "list" });
+    assert.ok(accepts(anything, [1, "a", null]));
+    assert.ok(!accepts(anything, "a"));
+  });
+
+  it("converts objects with nested fields and passes unknown nested keys through", () => {
+    const size = fieldToZod({
+      type: "object",
+      properties: [field({ name: "width", type: "integer", required: true }), field({ name: "height", type: "integer" })],
+    });
+    assert.deepEqual(size.parse({ width: 512, extra: true }), { width: 512, extra: true });
+    assert.ok(!accepts(size, { height: 512 }));
+    assert.ok(!accepts(size, { width: "512" }));
+
+    const json = fieldToZod({ type: "json" });
+    assert.ok(accepts(json, { any: { thing: 1 } }));
+    assert.ok(!accepts(json, [1]));
+  });
+
+  it("converts integers and numbers with bounds", () => {
+    const steps = fieldToZod({ type: "int", min: 1, max: 50 });
+    assert.ok(accepts(steps, 25));
+    assert.ok(!accepts(steps, 2.5));
+    assert.ok(!accepts(steps, 0));
+    assert.ok(!accepts(steps, 51));
+
+    const scale = fieldToZod({ type: "float", minimum: 0, maximum: 1 });
+    assert.ok(accepts(scale, 0.5));
+    assert.ok(!accepts(scale, 1.5));
+  });
+
+  it("converts file fields to strings described as URL or local path", () => {
+    const image = fieldToZod({ type: "image", description: "Input image", accept: ["image/png", "image/jpeg"] });
+    assert.ok(accepts(image, "https://example.com/a.png"));
+    assert.ok(accepts(image, "~/photo.jpg"));
+    assert.ok(!accepts(image, 42));
+    assert.equal(image.description, "Input image (URL or local file path) Accepts: image/png, image/jpeg.");
+  });
+
+  it("doesn't apply the server's pattern to file fields, which may hold local paths", () => {
+    const image = fieldToZod({ type: "image", pattern: "^https://" });
+    assert.ok(accepts(image, "~/photo.jpg"));
+
+    const text = fieldToZod({ type: "string", pattern: "^https://" });
+    assert.ok(!accepts(text, "~/photo.jpg"));
+  });
+
+  it("converts multi-selects to arrays of options", () => {
+    const styles = fieldToZod({ type: "checkboxes", options: ["anime", { label: "Photo", value: "photo" }], max: 2 });
+    assert.ok(accepts(styles, ["anime", "photo"]));
+    assert.ok(!accepts(styles, ["oil"]));
+    assert.ok(!accepts(styles, ["anime", "photo", "anime"]));
+    assert.ok(!accepts(styles, "anime"));
+  });
+
+  it("converts selects with numeric options to literals", () => {
+    const count = fieldToZod({ type: "select", options: [1, 2, { label: "Four", value: 4 }] });
+    assert.ok(accepts(count, 2));
+    assert.ok(accepts(count, 4));
+    assert.ok(!accepts(count, 3));
+    assert.ok(!accepts(count, "2"));
+
+    const single = fieldToZod({ type: "radio", options: [8] });
+    assert.ok(accepts(single, 8));
+    assert.ok(!accepts(single, 9));
+  });
+
+  it("converts string selects to enums and unknown types to strings", () => {
+    const ratio = fieldToZod({ type: "enum", options: ["1:1", "16:9"] });
+    assert.ok(accepts(ratio, "16:9"));
+    assert.ok(!accepts(ratio, "4:3"));
+
+    const fallback = fieldToZod({ type: "color" });
+    assert.ok(accepts(fallback, "#fff"));
+    assert.ok(!accepts(fallback, 1));
+  });
+});
+
+describe("buildFieldsShape", () => {
+  const schema = z.object(
+    buildFieldsShape([
+      field({ name: "prompt", type: "text", required: true }),
+      field({ name: "steps", type: "integer", default: 20 }),
+      field({ name: "seed", type: "integer" }),
+      field({ name: "ratio", type: "select", options: ["1:1", "16:9"], default: "4:3" }),
+    ])
+  );
+
+  it("requires required fields", () => {
+    assert.ok(!accepts(schema, {}));
+    assert.ok(accepts(schema, { prompt: "a cat" }));
+  });
+
+  it("makes optional fields optional and applies valid defaults", () => {
+    assert.deepEqual(schema.parse({ prompt: "a cat" }), { prompt: "a cat", steps: 20 });
+    assert.deepEqual(schema.parse({ prompt: "a cat", seed: 7, steps: 4 }), { prompt: "a cat", seed: 7, steps: 4 });
+  });
+
+  it("ignores defaults that don't match the field's schema", () => {
+    assert.equal(schema.parse({ prompt: "a cat" }).ratio, undefined);
+  });
+
+  it("skips fields without a name", () => {
+    const shape = buildFieldsShape([field({ name: "", type: "string" }), field({ name: "ok", type: "string" })]);
+    assert.deepEqual(Object.keys(shape), ["ok"]);
+  });
+});
+
+describe("validateToolInput", () => {
+  const tool = {
+    input_schema: [field({ name: "image", type: "image", required: true }), field({ name: "steps", type: "integer" })],
+  };
+
+  it("reports wrong types and missing required fields", () => {
+    assert.deepEqual(validateToolInput(tool, { steps: "4" }), ["image: missing required field", "steps: expected number, got string"]);
+  });
+
+  it("lets fields the schema doesn't declare through", () => {
+    assert.deepEqual(validateToolInput(tool, { image: "./a.png", imag: "x", seed: 1 }), []);
+  });
+
+  it("accepts anything when the tool publishes no schema", () => {
+    assert.deepEqual(validateToolInput({ input_schema: [] }, { anything: 1 }), []);
+  });
+});
+
+describe("unknownInputFields", () => {
+  const tool = { input_schema: [field({ name: "image", type: "image" }), field({ name: "steps", type: "integer" })] };
+
+  it("warns about undeclared fields, suggesting close names", () => {
+    assert.deepEqual(unknownInputFields(tool, { image: "a", imag: "x", zzzzzz: 1 }), [
+      'imag: not in the tool\'s input schema, sent as is — did you mean "image"?',
+      "zzzzzz: not in the tool's input schema, sent as is",
+    ]);
+  });
+
+  it("has nothing to warn about without a schema", () => {
+    assert.deepEqual(unknownInputFields({ input_schema: [] }, { anything: 1 }), []);
+  });
+});
@@ -0,0 +1,105 @@
+import "./home.js";
+import { describe, it, afterEach, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import {
+  configureSpendLimits,
+  getSpendStatus,
+  releaseSpend,
+  reserveSpend,
+  resolveSpendLimits,
+  settleSpend,
+  SpendLimitError,
+} from "../src/spend-guard.js";
+
+describe("resolveSpendLimits", () => {
+  afterEach(() => {
+    delete process.env.CARAVO_MAX_PER_CALL;
+    delete process.env.CARAVO_MAX_DAILY;
+  });
+
+  it("takes env vars over config, leaving unset limits off", () => {
+    process.env.CARAVO_MAX_DAILY = "5";
+    assert.deepEqual(resolveSpendLimits({ spend_limits: { daily: 20, per_session: 2 } }), {
+      per_call: undefined,
+      per_session: 2,
+      daily: 5,
+    });
+  });
+
+  it("throws on an invalid env value, naming it, instead of falling back", () => {
+    process.env.CARAVO_MAX_DAILY = "5usd";
+    assert.throws(() => resolveSpendLimits({ spend_limits: { daily: 20 } }), (err: Error) => {
+      assert.ok(err instanceof SpendLimitError);
+      assert.match(err.message, /CARAVO_MAX_DAILY "5usd"/);
+      return true;
+    });
+    process.env.CARAVO_MAX_PER_CALL = "-1";
+    delete process.env.CARAVO_MAX_DAILY;
+    assert.throws(() => resolveSpendLimits({}), /CARAVO_MAX_PER_CALL "-1"/);
+  });
+
+  it("throws on an invalid config value", () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    assert.throws(() => resolveSpendLimits({ spend_limits: { per_session: "lots" as any } }), /spend_limits\.per_session/);
+  });
+});
+
+describe("spend caps", () => {
+  const spendingFile = () => join(homedir(), ".caravo", "spending.json");
+  const hoursAgo = (h: number) => Date.now() - h * 60 * 60 * 1000;
+
+  beforeEach(() => {
+    rmSync(spendingFile(), { force: true });
+    configureSpendLimits({});
+  });
+
+  it("refuses a single payment over the per-call limit", () => {
+    configureSpendLimits({ per_call: 0.05 });
+    assert.throws(() => reserveSpend(0.06), /per-call limit/);
+    reserveSpend(0.05);
+    releaseSpend(0.05);
+  });
+
+  it("counts pending reservations, so parallel payments can't overshoot", () => {
+    configureSpendLimits({ daily: 0.1 });
+    reserveSpend(0.06);
+    assert.throws(() => reserveSpend(0.06), SpendLimitError);
+    releaseSpend(0.06);
+    reserveSpend(0.06);
+    releaseSpend(0.06);
+  });
+
+  it("adds settled payments to the session and daily totals, but not released ones", () => {
+    const before = getSpendStatus().session_spent;
+    reserveSpend(0.02);
+    settleSpend(0.02);
+    reserveSpend(0.5);
+    releaseSpend(0.5);
+    const status = getSpendStatus();
+    assert.equal(Number((status.session_spent - before).toFixed(6)), 0.02);
+    assert.equal(status.daily_spent, 0.02);
+    assert.equal(JSON.parse(readFileSync(spendingFile(), "utf-8")).length, 1);
+  });
+
+  it("enforces the per-session limit on what was settled this session", () => {
+    configureSpendLimits({ per_session: getSpendStatus().session_spent + 0.03 });
+    reserveSpend(0.02);
+    settleSpend(0.02);
+    assert.throws(() => reserveSpend(0.02), /per-session limit/);
+  });
+
+  it("only counts the last 24h toward the daily limit, and prunes older records", () => {
+    mkdirSync(join(homedir(), ".caravo"), { recursive: true });
+    writeFileSync(spendingFile(), JSON.stringify([{ at: hoursAgo(25), usd: 5 }, { at: hoursAgo(1), usd: 0.04 }]));
+    configureSpendLimits({ daily: 0.05 });
+    assert.equal(getSpendStatus().daily_spent, 0.04);
+    assert.throws(() => reserveSpend(0.02), /daily limit/);
+    reserveSpend(0.01);
+    settleSpend(0.01);
+    const records = JSON.parse(readFileSync(spendingFile(), "utf-8"));
+    assert.deepEqual(records.map((r: { usd: number }) => r.usd), [0.04, 0.01]);
+  });
+});
@@ -0,0 +1,115 @@
+import "./home.js";
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { homedir, tmpdir } from "os";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import { configureUploads, localFile, sniffMime, toLocalPath } from "../src/uploads.js";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0, 0, 0, 0, 0]);
+
+let allowed: string;
+let outside: string;
+
+before(() => {
+  allowed = mkdtempSync(join(tmpdir(), "caravo-allowed-"));
+  outside = mkdtempSync(join(tmpdir(), "caravo-outside-"));
+  configureUploads({ file_dirs: [allowed, homedir()] });
+});
+
+after(() => {
+  rmSync(allowed, { recursive: true, force: true });
+  rmSync(outside, { recursive: true, force: true });
+  configureUploads({});
+});
+
+const write = (dir: string, name: string, data: Buffer | string) => {
+  const path = join(dir, name);
+  writeFileSync(path, data);
+  return path;
+};
+
+describe("toLocalPath", () => {
+  it("marks file://, ~/, ./ and ../ as explicit file references", () => {
+    assert.deepEqual(toLocalPath(pathToFileURL("/tmp/a b.png").href), { path: "/tmp/a b.png", explicit: true });
+    assert.deepEqual(toLocalPath("~/a.png"), { path: join(homedir(), "a.png"), explicit: true });
+    assert.deepEqual(toLocalPath("./a.png"), { path: join(process.cwd(), "a.png"), explicit: true });
+    assert.equal(toLocalPath("../a.png")?.explicit, true);
+  });
+
+  it("treats absolute paths as possible files, but not explicitly", () => {
+    assert.deepEqual(toLocalPath("/v1/users.json"), { path: "/v1/users.json", explicit: false });
+  });
+
+  it("ignores strings that aren't paths", () => {
+    for (const value of ["/", "//cdn.example/a.png", "/a b.png", "a.png", "hello", "https://x/a.png"]) {
+      assert.equal(toLocalPath(value), null, value);
+    }
+  });
+});
+
+describe("sniffMime", () => {
+  const cases: Array<[string, Buffer, string | undefined]> = [
+    ["jpeg", Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0, 0, 0]), "image/jpeg"],
+    ["png", PNG, "image/png"],
+    ["gif", Buffer.from("GIF89a\0\0"), "image/gif"],
+    ["webp", Buffer.from("RIFF\0\0\0\0WEBPVP8 "), "image/webp"],
+    ["wav", Buffer.from("RIFF\0\0\0\0WAVEfmt "), "audio/wav"],
+    ["mp4", Buffer.from("\0\0\0\x18ftypisom"), "video/mp4"],
+    ["heic", Buffer.from("\0\0\0\x18ftypheic"), "image/heic"],
+    ["pdf", Buffer.from("%PDF-1.7"), "application/pdf"],
+    ["text", Buffer.from("just some text"), undefined],
+    ["short", Buffer.from("ab"), undefined],
+  ];
+  for (const [name, data, mime] of cases) {
+    it(`detects ${name}`, () => {
+      assert.equal(sniffMime(write(allowed, `sniff-${name}`, data)), mime);
+    });
+  }
+
+  it("returns undefined for a missing file", () => {
+    assert.equal(sniffMime(join(allowed, "nope")), undefined);
+  });
+});
+
+describe("localFile", () => {
+  it("passes missing absolute paths through as plain strings", () => {
+    assert.equal(localFile("/v1/users.json"), null);
+    assert.equal(localFile("/docs/index.html"), null);
+  });
+
+  it("throws for missing explicit file references", () => {
+    assert.throws(() => localFile("./definitely-missing.png"), /Local file not found/);
+    assert.throws(() => localFile("~/definitely-missing.json"), /Local file not found/);
+    assert.throws(() => localFile(pathToFileURL(join(allowed, "missing.pdf")).href), /Local file not found/);
+  });
+
+  it("resolves files by extension or by content", () => {
+    const named = write(allowed, "photo.png", PNG);
+    assert.deepEqual(localFile(named), { path: named, size: PNG.length, mime: "image/png" });
+    const bare = write(allowed, "photo", PNG);
+    assert.equal(localFile(bare)?.mime, "image/png");
+    assert.equal(localFile(write(allowed, "notes", "plain text")), null);
+  });
+
+  it("refuses files outside the allowed directories", () => {
+    assert.throws(() => localFile(write(outside, "secret.png", PNG)), /outside the allowed directories/);
+    // Never opened just to sniff it
+    assert.equal(localFile(write(outside, "secret", PNG)), null);
+  });
+
+  it("never reads ~/.caravo, even though home is allowed", () => {
+    mkdirSync(join(homedir(), ".caravo"), { recursive: true });
+    assert.throws(() => localFile(write(join(homedir(), ".caravo"), "wallet.json", "{}")), /never uploaded/);
+  });
+
+  it("refuses files over the max size", () => {
+    configureUploads({ file_dirs: [allowed], upload_max_bytes: 8 });
+    try {
+      assert.throws(() => localFile(write(allowed, "big.png", PNG)), /too large/);
+    } finally {
+      configureUploads({ file_dirs: [allowed, homedir()] });
+    }
+  });
+});
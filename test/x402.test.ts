@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { selectPaymentRequirements, cheapestSupportedRequirements, type PaymentRequirements } from "../src/x402.js";
+
+const BASE = "eip155:8453";
+const ARBITRUM = "eip155:42161";
+const USDC: Record<string, string> = {
+  [BASE]: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+  [ARBITRUM]: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+};
+
+function offer(network: string, amount: string, overrides: Partial<PaymentRequirements> = {}): PaymentRequirements {
+  return {
+    scheme: "exact",
+    network,
+    amount,
+    asset: USDC[network] ?? "0x0000000000000000000000000000000000000001",
+    payTo: "0x1111111111111111111111111111111111111111",
+    maxTimeoutSeconds: 60,
+    ...overrides,
+  };
+}
+
+describe("cheapestSupportedRequirements", () => {
+  it("picks the lowest amount among offers this client can sign", () => {
+    const accepts = [
+      offer(BASE, "20000"),
+      offer(ARBITRUM, "15000"),
+      offer(BASE, "1000", { scheme: "upto" }),
+      offer("eip155:999999", "500"),
+      offer(BASE, "800", { asset: USDC[ARBITRUM] }),
+    ];
+    assert.equal(cheapestSupportedRequirements(accepts), accepts[1]);
+    assert.equal(cheapestSupportedRequirements([offer(BASE, "1", { scheme: "upto" })]), null);
+  });
+
+  it("reads the x402 v1 maxAmountRequired when amount is absent", () => {
+    const v1 = { ...offer(BASE, "0"), amount: undefined as unknown as string, maxAmountRequired: "5000" };
+    assert.equal(cheapestSupportedRequirements([offer(ARBITRUM, "6000"), v1]), v1);
+  });
+});
+
+describe("selectPaymentRequirements", () => {
+  it("selects the cheapest payable offer and records why others were passed over", async () => {
+    const cheap = offer(ARBITRUM, "10000");
+    const pricier = offer(BASE, "20000");
+    const unsupported = offer(BASE, "1", { scheme: "upto" });
+    const balances: Record<string, bigint> = { [ARBITRUM]: 5000n, [BASE]: 50000n };
+
+    const { selected, rejected } = await selectPaymentRequirements([pricier, unsupported, cheap], async (req) => balances[req.network]);
+    assert.equal(selected, pricier);
+    assert.deepEqual(
+      rejected.map((r) => [r.requirements, r.reason, r.insufficientBalance]),
+      [
+        [unsupported, 'unsupported scheme "upto"', undefined],
+        [cheap, `insufficient balance on ${ARBITRUM}`, true],
+      ]
+    );
+  });
+
+  it("treats an unknown or failed balance lookup as payable", async () => {
+    const accepts = [offer(BASE, "20000"), offer(ARBITRUM, "10000")];
+    assert.equal((await selectPaymentRequirements(accepts, async () => null)).selected, accepts[1]);
+    assert.equal((await selectPaymentRequirements(accepts, () => Promise.reject(new Error("rpc down")))).selected, accepts[1]);
+    assert.equal((await selectPaymentRequirements(accepts)).selected, accepts[1]);
+  });
+
+  it("selects nothing when every offer is unaffordable", async () => {
+    const { selected, rejected } = await selectPaymentRequirements([offer(BASE, "20000"), offer(ARBITRUM, "10000")], async () => 0n);
+    assert.equal(selected, null);
+    assert.equal(rejected.length, 2);
+    assert.ok(rejected.every((r) => r.insufficientBalance));
+  });
+
+  it("rejects an offer with an unparseable amount", async () => {
+    const { selected, rejected } = await selectPaymentRequirements([offer(BASE, "1.5")]);
+    assert.equal(selected, null);
+    assert.equal(rejected[0].reason, 'invalid amount "1.5"');
+  });
+});